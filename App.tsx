@@ -1,95 +1,293 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useRef, useReducer, useEffect } from 'react';
 import { ImageInput } from './components/ImageInput';
 import { ResultDisplay } from './components/ResultDisplay';
 import { CameraInput } from './components/CameraInput';
 import { InstructionsDisplay } from './components/InstructionsDisplay';
-import { analyzeImageForMetrics } from './services/geminiService';
-import { calculateBMI, getBmiCategory } from './utils/bmi';
-import type { AnalysisResult } from './types';
-import { LogoIcon, CameraIcon, UploadIcon, SpinnerIcon, PaperIcon, SparklesIcon, ArrowLeftIcon, PoseIcon } from './components/icons';
+import { HistoryView } from './components/HistoryView';
+import { HeightInput } from './components/HeightInput';
+import { SettingsView } from './components/SettingsView';
+import { AnalysisErrorNotice } from './components/AnalysisErrorNotice';
+import { SubjectSelector } from './components/SubjectSelector';
+import { ReferenceObjectPicker } from './components/ReferenceObjectPicker';
+import { ProfilePicker } from './components/ProfilePicker';
+import { analyzeFramesForMetrics, analyzeImageForMetrics } from './services/analysisService';
+import { trackSubjectAcrossFrames } from './services/subjectTracker';
+import { isAbortError } from './services/retry';
+import { toAnalysisError, type AnalysisError } from './services/analysisError';
+import { addHistoryEntry, deleteProfileHistory } from './services/historyStore';
+import { loadSettings, saveSettings, type AppSettings } from './services/settingsStore';
+import { applyDetails, createProfile, loadActiveProfileId, loadProfiles, profileDetails, saveActiveProfileId, saveProfiles, type ProfileDraft } from './services/profileStore';
+import { loadSessionResult, saveSessionResult } from './services/sessionStore';
+import { calculateBMI, calculateBmiRange, getBmiCategory, getBmiScheme } from './utils/bmi';
+import { createThumbnail } from './utils/image';
+import { INITIAL_STATE, parseRoute, toRoute, transition, type WizardEvent, type WizardState } from './utils/wizard';
+import type { AnalysisResult, BoundingBox, CaptureMethod, CapturedImage, PersonalDetails, Profile } from './types';
+import { LogoIcon, CameraIcon, UploadIcon, SpinnerIcon, SparklesIcon, ArrowLeftIcon, PoseIcon, HistoryIcon, SettingsIcon } from './components/icons';
 
-type Step = 'reference' | 'estimation' | 'instructions' | 'source' | 'capture' | 'loading' | 'result';
-type CaptureMode = 'upload' | 'camera';
-type EstimationMethod = 'pose' | 'environment';
+// History is a convenience; a failed save must never hide a result the user is waiting for.
+const saveToHistory = async (result: AnalysisResult, method: CaptureMethod, image: CapturedImage) => {
+  let thumbnail: string | undefined;
+  try {
+    thumbnail = await createThumbnail(image.base64Image, image.mimeType);
+  } catch (err) {
+    console.warn('Could not create history thumbnail:', err);
+  }
+  try {
+    await addHistoryEntry({ ...result, method, thumbnail });
+  } catch (err) {
+    console.error('Failed to save measurement to history:', err);
+  }
+};
+
+// A multi-view result is only as trustworthy as its weakest image.
+const summarizeQuality = (images: CapturedImage[]): AnalysisResult['imageQuality'] => {
+  const assessed = images.flatMap(image => image.quality ? [image.quality] : []);
+  if (assessed.length === 0) return undefined;
+  const worst = assessed.reduce((a, b) => (b.score < a.score ? b : a));
+  return { score: worst.score, issues: [...new Set(assessed.flatMap(q => q.issues))] };
+};
+
+const currentRoute = () => window.location.hash.replace(/^#/, '') || '/';
+
+// Steps that work on the images of the current capture; leaving them discards those images.
+const CAPTURE_STEPS: WizardState['step'][] = ['capture', 'loading', 'subject', 'error'];
 
 const App: React.FC = () => {
-  const [step, setStep] = useState<Step>('reference');
-  const [captureMode, setCaptureMode] = useState<CaptureMode>('upload');
-  const [result, setResult] = useState<AnalysisResult | null>(null);
-  const [error, setError] = useState<string | null>(null);
-  
-  // User choices
-  const [hasReference, setHasReference] = useState<boolean | null>(null);
-  const [estimationMethod, setEstimationMethod] = useState<EstimationMethod | null>(null);
-
-  const handleAnalysis = useCallback(async (base64Image: string) => {
-    if (hasReference === null || (hasReference === false && estimationMethod === null)) return;
-    setStep('loading');
+  // The URL is the source of truth on load, so deep links and reloads land on the right step.
+  const [state, dispatch] = useReducer(transition, undefined, () => parseRoute(currentRoute()) ?? INITIAL_STATE);
+  const { step } = state;
+  const context = 'context' in state ? state.context : null;
+  const [sessionResult] = useState(loadSessionResult);
+  const [result, setResult] = useState<AnalysisResult | null>(sessionResult?.result ?? null);
+  const [measuredAt, setMeasuredAt] = useState(sessionResult?.measuredAt ?? 0);
+  const [analyzedImages, setAnalyzedImages] = useState<CapturedImage[]>([]);
+  // The images of the last analysis, kept for "Try again" and handed back to the capture step after a cancel.
+  const [pendingImages, setPendingImages] = useState<CapturedImage[]>([]);
+  // Set when the photo showed several adults: who the model found, and who the user picked.
+  const [subjectCandidates, setSubjectCandidates] = useState<BoundingBox[]>([]);
+  const [subjectBox, setSubjectBox] = useState<BoundingBox | undefined>(undefined);
+  // Set when the pending images are frames of one camera sequence rather than views of a photo capture.
+  const [isSequenceCapture, setIsSequenceCapture] = useState(false);
+  const [attempt, setAttempt] = useState<{ current: number; max: number } | null>(null);
+  const [frameProgress, setFrameProgress] = useState<{ done: number; total: number } | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const [error, setError] = useState<AnalysisError | null>(null);
+
+  const [profiles, setProfiles] = useState<Profile[]>(loadProfiles);
+  const [activeProfileId, setActiveProfileId] = useState<string | undefined>(loadActiveProfileId);
+  // A deleted or unknown id measures as a guest.
+  const activeProfile = profiles.find(profile => profile.id === activeProfileId);
+  // Guests keep their details for this visit only, across "Analyze Another Image".
+  const [guestDetails, setGuestDetails] = useState<PersonalDetails>({});
+  const [settings, setSettings] = useState<AppSettings>(loadSettings);
+  // A profile's own scheme wins over the device-wide setting, which remains the guest default.
+  const bmiScheme = activeProfile?.bmiScheme ?? settings.bmiScheme;
+  const units = activeProfile?.units ?? 'metric';
+  const personalDetails = activeProfile ? profileDetails(activeProfile) : guestDetails;
+
+  const updateProfiles = (next: Profile[]) => {
+    setProfiles(next);
+    saveProfiles(next);
+  };
+
+  const handleSaveProfile = (draft: ProfileDraft, id?: string) => {
+    updateProfiles(id
+      ? profiles.map(profile => profile.id === id ? { ...profile, ...draft } : profile)
+      : [...profiles, createProfile(draft)]);
+  };
+
+  const handleDeleteProfile = async (profile: Profile) => {
+    // History first: a profile without history is harmless, history without a profile is unreachable.
+    await deleteProfileHistory(profile.id);
+    updateProfiles(profiles.filter(p => p.id !== profile.id));
+    if (profile.id === activeProfileId) {
+      setActiveProfileId(undefined);
+      saveActiveProfileId(undefined);
+    }
+  };
+
+  const handleSelectProfile = (id: string | undefined) => {
+    setActiveProfileId(id);
+    saveActiveProfileId(id);
+    dispatch({ type: 'CHOOSE_PROFILE' });
+  };
+
+  const handlePersonalDetailsChange = (details: PersonalDetails) => {
+    if (activeProfile) {
+      updateProfiles(profiles.map(profile => profile.id === activeProfile.id ? applyDetails(profile, details) : profile));
+    } else {
+      setGuestDetails(details);
+    }
+  };
+
+  const handleSettingsChange = (next: AppSettings) => {
+    // With a profile active, the scheme on the settings page is the profile's.
+    if (activeProfile) {
+      if (next.bmiScheme !== activeProfile.bmiScheme) {
+        updateProfiles(profiles.map(profile => profile.id === activeProfile.id ? { ...profile, bmiScheme: next.bmiScheme } : profile));
+      }
+      next = { ...next, bmiScheme: settings.bmiScheme };
+    }
+    setSettings(next);
+    saveSettings(next);
+  };
+
+  // Mirror the wizard into the URL, so the browser's back and forward buttons walk through the steps.
+  useEffect(() => {
+    const route = toRoute(state);
+    if (route !== currentRoute()) {
+      window.history.pushState(null, '', `#${route}`);
+    }
+  }, [state]);
+
+  useEffect(() => {
+    const handlePopState = () => dispatch({ type: 'NAVIGATE', state: parseRoute(currentRoute()) ?? INITIAL_STATE });
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  useEffect(() => {
+    // Navigating away mid-analysis (e.g. with the back button) cancels it.
+    if (step !== 'loading') {
+      abortControllerRef.current?.abort();
+    }
+    if (!CAPTURE_STEPS.includes(step)) {
+      setPendingImages([]);
+    }
+    // A result route without a result, e.g. a link opened in a new tab, falls back to capturing one.
+    if (state.step === 'result' && !result) {
+      dispatch({ type: 'NAVIGATE', state: { step: 'capture', context: state.context, mode: state.mode } });
+    }
+  }, [state, step, result]);
+
+  const handleAnalysis = useCallback(async (images: CapturedImage[], { subject, sequence = false }: { subject?: BoundingBox; sequence?: boolean } = {}) => {
+    if (!context) return;
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setPendingImages(images);
+    setSubjectBox(subject);
+    setIsSequenceCapture(sequence);
+    setAttempt(null);
+    setFrameProgress(sequence ? { done: 0, total: images.length } : null);
     setError(null);
+    dispatch({ type: 'ANALYZE' });
     try {
-      const { heightCm, weightKg, accuracy } = await analyzeImageForMetrics(base64Image, hasReference, estimationMethod);
-      const bmi = calculateBMI(heightCm, weightKg);
-      const categoryInfo = getBmiCategory(bmi);
-      setResult({ heightCm, weightKg, bmi, accuracy, ...categoryInfo });
-      setStep('result');
+      const options = {
+        method: context.method,
+        reference: context.reference,
+        knownHeightCm: context.knownHeightCm,
+        subjectBox: subject,
+        useCache: settings.useResponseCache,
+        signal: controller.signal,
+        onAttempt: (current: number, max: number) => setAttempt({ current, max }),
+      };
+      // The subject is picked on the first frame of a sequence, and may have moved in the others.
+      const subjectBoxes = sequence && subject ? await trackSubjectAcrossFrames(images, subject) : undefined;
+      // A sequence's frames are analyzed one by one and combined; the frame closest to the result stands in for it.
+      const { estimate, shownImages } = sequence
+        ? await analyzeFramesForMetrics(images, { ...options, subjectBoxes, onFrameDone: (done, total) => setFrameProgress({ done, total }) })
+            .then(({ estimate, representativeIndex }) => ({ estimate, shownImages: [images[representativeIndex]] }))
+        : { estimate: await analyzeImageForMetrics(images, options), shownImages: images };
+      const bmi = calculateBMI(estimate.heightCm, estimate.weightKg);
+      const categoryInfo = getBmiCategory(bmi, getBmiScheme(bmiScheme));
+      const bmiRange = calculateBmiRange(estimate.heightRangeCm, estimate.weightRangeKg);
+      const analysisResult: AnalysisResult = {
+        ...estimate,
+        bmi,
+        bmiRange,
+        ...categoryInfo,
+        bmiScheme,
+        imageQuality: summarizeQuality(shownImages),
+        camera: shownImages[0].camera,
+        profileId: activeProfile?.id,
+      };
+      const now = Date.now();
+      setResult(analysisResult);
+      setMeasuredAt(now);
+      setAnalyzedImages(shownImages);
+      saveSessionResult({ result: analysisResult, measuredAt: now });
+      dispatch({ type: 'SUCCEED' });
+      saveToHistory(analysisResult, context.method, shownImages[0]);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'An unknown error occurred.');
-      setStep('reference'); // Reset to start on error
+      if (isAbortError(err)) {
+        dispatch({ type: 'CANCEL' }); // Back to the preview with the same image(s)
+        return;
+      }
+      const analysisError = toAnalysisError(err);
+      // Several adults found: let the user pick one instead of failing. Only asked once per photo.
+      if (analysisError.code === 'multiple_people' && analysisError.people.length > 1 && !subject) {
+        setSubjectCandidates(analysisError.people);
+        dispatch({ type: 'PICK_SUBJECT' });
+        return;
+      }
+      setError(analysisError);
+      dispatch({ type: 'FAIL' });
+    } finally {
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+      }
     }
-  }, [hasReference, estimationMethod]);
-  
+  }, [context, bmiScheme, activeProfile?.id, settings.useResponseCache]);
+
+  const handleCancelAnalysis = () => {
+    abortControllerRef.current?.abort();
+  };
+
   const handleReset = () => {
     setResult(null);
+    setAnalyzedImages([]);
     setError(null);
-    setHasReference(null);
-    setEstimationMethod(null);
-    setStep('reference');
+    saveSessionResult(null);
+    dispatch({ type: 'RESET' });
   };
-  
-  const handleBack = () => {
+
+  // Retaking starts from an empty capture screen rather than the last images.
+  const handleRetake = () => {
+    setPendingImages([]);
     setError(null);
-    switch(step) {
-      case 'estimation':
-        setHasReference(null);
-        setStep('reference');
-        break;
-      case 'instructions':
-        if (hasReference) {
-            setHasReference(null);
-            setStep('reference');
-        } else {
-            setEstimationMethod(null);
-            setStep('estimation');
-        }
-        break;
-      case 'source':
-        setStep('instructions');
-        break;
-      case 'capture':
-        setStep('source');
-        break;
-    }
+    dispatch({ type: 'RETAKE' });
   };
 
+  const send = (event: WizardEvent) => () => dispatch(event);
+  const handleBack = send({ type: 'BACK' });
+
   const renderContent = () => {
-    switch (step) {
+    switch (state.step) {
+      case 'profile':
+        return (
+          <ProfilePicker
+            profiles={profiles}
+            activeProfileId={activeProfile?.id}
+            defaultBmiScheme={settings.bmiScheme}
+            onSelect={handleSelectProfile}
+            onSave={handleSaveProfile}
+            onDelete={handleDeleteProfile}
+          />
+        );
       case 'reference':
         return (
           <div className="w-full p-4 flex flex-col items-center justify-center animate-fade-in text-center">
+            <button onClick={handleBack} className="absolute top-6 left-6 text-gray-400 hover:text-white transition-colors" title="Switch profile">
+                <ArrowLeftIcon />
+            </button>
+            <button onClick={send({ type: 'OPEN_SETTINGS' })} className="absolute top-6 right-16 text-gray-400 hover:text-white transition-colors" title="Settings">
+                <SettingsIcon />
+            </button>
+            <button onClick={send({ type: 'OPEN_HISTORY' })} className="absolute top-6 right-6 text-gray-400 hover:text-white transition-colors" title="View history">
+                <HistoryIcon />
+            </button>
+            <p className="text-sm text-gray-400 mb-2">Measuring <span className="font-semibold text-white">{activeProfile?.name ?? 'a guest'}</span></p>
             <h2 className="text-2xl font-bold text-white mb-2">Want higher accuracy?</h2>
-            <p className="text-gray-400 mb-6 max-w-xs">Using a standard A4 or Letter paper as a reference object gives the best results.</p>
-            <div className="w-full flex flex-col sm:flex-row gap-6 items-center justify-center">
-              <button onClick={() => { setHasReference(true); setStep('instructions'); }} className="w-full sm:w-60 h-60 bg-gray-800 rounded-2xl flex flex-col items-center justify-center cursor-pointer hover:bg-gray-700 hover:border-cyan-500 border-2 border-transparent transition-all shadow-lg focus:outline-none focus:ring-2 focus:ring-cyan-400 p-4">
-                  <PaperIcon className="w-16 h-16 text-gray-400 mb-2"/>
-                  <p className="text-xl font-semibold text-white">Use Paper</p>
-                  <p className="text-sm font-normal text-green-400">(High Accuracy)</p>
-              </button>
-              <button onClick={() => { setHasReference(false); setStep('estimation'); }} className="w-full sm:w-60 h-60 bg-gray-800 rounded-2xl flex flex-col items-center justify-center cursor-pointer hover:bg-gray-700 hover:border-cyan-500 border-2 border-transparent transition-all shadow-lg focus:outline-none focus:ring-2 focus:ring-cyan-400 p-4">
-                  <SparklesIcon className="w-16 h-16 text-gray-400 mb-2"/>
-                  <p className="text-xl font-semibold text-white">Just Estimate</p>
-                  <p className="text-sm font-normal text-yellow-400">(Medium Accuracy)</p>
-              </button>
-            </div>
+            <p className="text-gray-400 mb-6 max-w-xs">Measuring next to an object of known size gives the best results. Pick one you have at hand.</p>
+            <ReferenceObjectPicker onSelect={reference => dispatch({ type: 'CHOOSE_REFERENCE', reference })} />
+            <button onClick={send({ type: 'CHOOSE_ESTIMATE' })} className="w-full mt-6 bg-gray-800 rounded-xl flex items-center justify-center gap-3 cursor-pointer hover:bg-gray-700 hover:border-cyan-500 border-2 border-transparent transition-all shadow-lg focus:outline-none focus:ring-2 focus:ring-cyan-400 p-4">
+                <SparklesIcon className="w-8 h-8 text-gray-400"/>
+                <span className="text-lg font-semibold text-white">No reference? Just Estimate</span>
+                <span className="text-sm font-normal text-yellow-400">(Medium Accuracy)</span>
+            </button>
+            <button onClick={send({ type: 'CHOOSE_KNOWN_HEIGHT' })} className="mt-6 text-cyan-400 hover:text-cyan-300 font-semibold underline-offset-4 hover:underline transition-colors">
+                I already know my height
+            </button>
           </div>
         );
       case 'estimation':
@@ -101,12 +299,12 @@ const App: React.FC = () => {
                 <h2 className="text-2xl font-bold text-white mb-2">Choose Estimation Method</h2>
                 <p className="text-gray-400 mb-6 max-w-xs">The "Guided Pose" is more accurate as it uses your arm span as a reference.</p>
                 <div className="w-full flex flex-col sm:flex-row gap-6 items-center justify-center">
-                    <button onClick={() => { setEstimationMethod('pose'); setStep('instructions'); }} className="w-full sm:w-60 h-60 bg-gray-800 rounded-2xl flex flex-col items-center justify-center cursor-pointer hover:bg-gray-700 hover:border-cyan-500 border-2 border-transparent transition-all shadow-lg focus:outline-none focus:ring-2 focus:ring-cyan-400 p-4">
+                    <button onClick={send({ type: 'CHOOSE_METHOD', method: 'pose' })} className="w-full sm:w-60 h-60 bg-gray-800 rounded-2xl flex flex-col items-center justify-center cursor-pointer hover:bg-gray-700 hover:border-cyan-500 border-2 border-transparent transition-all shadow-lg focus:outline-none focus:ring-2 focus:ring-cyan-400 p-4">
                         <PoseIcon className="w-16 h-16 text-gray-400 mb-2"/>
                         <p className="text-xl font-semibold text-white">Guided Pose</p>
                         <p className="text-sm font-normal text-cyan-400">(Recommended)</p>
                     </button>
-                    <button onClick={() => { setEstimationMethod('environment'); setStep('instructions'); }} className="w-full sm:w-60 h-60 bg-gray-800 rounded-2xl flex flex-col items-center justify-center cursor-pointer hover:bg-gray-700 hover:border-cyan-500 border-2 border-transparent transition-all shadow-lg focus:outline-none focus:ring-2 focus:ring-cyan-400 p-4">
+                    <button onClick={send({ type: 'CHOOSE_METHOD', method: 'environment' })} className="w-full sm:w-60 h-60 bg-gray-800 rounded-2xl flex flex-col items-center justify-center cursor-pointer hover:bg-gray-700 hover:border-cyan-500 border-2 border-transparent transition-all shadow-lg focus:outline-none focus:ring-2 focus:ring-cyan-400 p-4">
                         <CameraIcon className="w-16 h-16 text-gray-400 mb-2"/>
                         <p className="text-xl font-semibold text-white">Quick Snap</p>
                         <p className="text-sm font-normal text-yellow-400">(Faster)</p>
@@ -114,10 +312,26 @@ const App: React.FC = () => {
                 </div>
             </div>
         );
+      case 'height':
+        return (
+          <HeightInput
+            initialHeightCm={state.knownHeightCm ?? null}
+            units={units}
+            onSubmit={heightCm => dispatch({ type: 'SUBMIT_HEIGHT', heightCm })}
+            onBack={handleBack}
+          />
+        );
       case 'instructions':
-        const method = hasReference ? 'paper' : estimationMethod;
-        if (!method) return null; // Should not happen
-        return <InstructionsDisplay method={method} onBack={handleBack} onContinue={() => setStep('source')} />
+        return (
+          <InstructionsDisplay
+            method={state.context.method}
+            reference={state.context.reference}
+            multiView={state.context.multiView}
+            onMultiViewChange={multiView => dispatch({ type: 'SET_MULTI_VIEW', multiView })}
+            onBack={handleBack}
+            onContinue={send({ type: 'CONTINUE' })}
+          />
+        );
       case 'source':
          return (
             <div className="w-full p-4 flex flex-col gap-6 items-center justify-center animate-fade-in">
@@ -125,11 +339,11 @@ const App: React.FC = () => {
                     <ArrowLeftIcon />
                 </button>
                 <div className="flex flex-col sm:flex-row gap-6 items-center justify-center">
-                    <button onClick={() => { setCaptureMode('upload'); setStep('capture'); }} className="w-full sm:w-60 h-60 bg-gray-800 rounded-2xl flex flex-col items-center justify-center cursor-pointer hover:bg-gray-700 hover:border-cyan-500 border-2 border-transparent transition-all shadow-lg focus:outline-none focus:ring-2 focus:ring-cyan-400">
+                    <button onClick={send({ type: 'CHOOSE_SOURCE', mode: 'upload' })} className="w-full sm:w-60 h-60 bg-gray-800 rounded-2xl flex flex-col items-center justify-center cursor-pointer hover:bg-gray-700 hover:border-cyan-500 border-2 border-transparent transition-all shadow-lg focus:outline-none focus:ring-2 focus:ring-cyan-400">
                         <UploadIcon className="w-16 h-16 text-gray-400 mb-2"/>
                         <p className="text-xl font-semibold text-white">Upload Image</p>
                     </button>
-                    <button onClick={() => { setCaptureMode('camera'); setStep('capture'); }} className="w-full sm:w-60 h-60 bg-gray-800 rounded-2xl flex flex-col items-center justify-center cursor-pointer hover:bg-gray-700 hover:border-cyan-500 border-2 border-transparent transition-all shadow-lg focus:outline-none focus:ring-2 focus:ring-cyan-400">
+                    <button onClick={send({ type: 'CHOOSE_SOURCE', mode: 'camera' })} className="w-full sm:w-60 h-60 bg-gray-800 rounded-2xl flex flex-col items-center justify-center cursor-pointer hover:bg-gray-700 hover:border-cyan-500 border-2 border-transparent transition-all shadow-lg focus:outline-none focus:ring-2 focus:ring-cyan-400">
                         <CameraIcon className="w-16 h-16 text-gray-400 mb-2"/>
                         <p className="text-xl font-semibold text-white">Use Camera</p>
                     </button>
@@ -137,22 +351,78 @@ const App: React.FC = () => {
             </div>
         );
       case 'capture':
-        if (captureMode === 'upload') {
-            return <ImageInput onAnalyze={handleAnalysis} onBack={handleBack} />;
+        if (state.mode === 'upload') {
+            return <ImageInput onAnalyze={images => handleAnalysis(images)} onBack={handleBack} multiView={state.context.multiView} initialImages={pendingImages} />;
         }
-        return <CameraInput onAnalyze={handleAnalysis} onBack={handleBack} />;
+        return (
+          <CameraInput
+            onAnalyze={images => handleAnalysis(images)}
+            onAnalyzeFrames={frames => handleAnalysis(frames, { sequence: true })}
+            onBack={handleBack}
+            multiView={state.context.multiView}
+            method={state.context.method}
+            reference={state.context.reference}
+            // A cancelled sequence is sampled again rather than restored frame by frame.
+            initialImages={isSequenceCapture ? [] : pendingImages}
+          />
+        );
       case 'loading':
         return (
             <div className="flex flex-col items-center justify-center gap-4 text-white animate-fade-in">
                 <SpinnerIcon />
                 <p className="text-lg">AI is analyzing the image...</p>
-                <p className="text-sm text-gray-400">This may take a moment.</p>
+                <p className="text-sm text-gray-400">
+                    {frameProgress
+                        ? `Analyzed ${frameProgress.done} of ${frameProgress.total} frames...`
+                        : attempt && attempt.current > 1
+                        ? `The connection hiccuped. Retrying (attempt ${attempt.current} of ${attempt.max})...`
+                        : 'This may take a moment.'}
+                </p>
+                <button onClick={handleCancelAnalysis} className="mt-2 bg-gray-600 text-white font-bold py-2 px-6 rounded-lg hover:bg-gray-500 transition-colors">
+                    Cancel
+                </button>
             </div>
         );
       case 'result':
-        return result ? <ResultDisplay result={result} onReset={handleReset} /> : null;
-      default:
-        return null;
+        return result ? (
+          <ResultDisplay
+            result={result}
+            method={state.context.method}
+            measuredAt={measuredAt}
+            image={analyzedImages[0] ?? null}
+            onReset={handleReset}
+            onRetake={handleRetake}
+            onViewHistory={send({ type: 'OPEN_HISTORY' })}
+            personalDetails={personalDetails}
+            onPersonalDetailsChange={handlePersonalDetailsChange}
+            units={units}
+            profileName={activeProfile?.name}
+          />
+        ) : null;
+      case 'error':
+        return error ? (
+          <AnalysisErrorNotice
+            error={error}
+            method={state.context.method}
+            onRetake={handleRetake}
+            onRetry={() => handleAnalysis(pendingImages, { subject: subjectBox, sequence: isSequenceCapture })}
+            onSwitchToReference={() => { setError(null); dispatch({ type: 'SWITCH_TO_REFERENCE' }); }}
+            onStartOver={handleReset}
+          />
+        ) : null;
+      case 'subject':
+        return pendingImages.length > 0 ? (
+          <SubjectSelector
+            image={pendingImages[0]}
+            people={subjectCandidates}
+            onSelect={box => handleAnalysis(pendingImages, { subject: box, sequence: isSequenceCapture })}
+            onBack={handleBack}
+          />
+        ) : null;
+      case 'history':
+        return <HistoryView onBack={handleBack} bmiScheme={bmiScheme} profileId={activeProfile?.id} profileName={activeProfile?.name} units={units} />;
+      case 'settings':
+        return <SettingsView settings={{ ...settings, bmiScheme }} profileName={activeProfile?.name} onChange={handleSettingsChange} onBack={handleBack} />;
     }
   };
 
@@ -166,23 +436,11 @@ const App: React.FC = () => {
         </div>
         <p className="text-lg text-gray-400">Get AI-powered height & weight estimates from a single image.</p>
         <p className="text-sm text-amber-400/80 mt-2 max-w-3xl mx-auto">
-            For <strong>high accuracy</strong>, use a standard A4/Letter paper. For <strong>good accuracy</strong> without paper, try our "Guided Pose" method.
+            For <strong>high accuracy</strong>, measure next to an object of known size, like an A4 sheet or a floor tile. For <strong>good accuracy</strong> without one, try our "Guided Pose" method.
         </p>
       </header>
 
       <main className="w-full max-w-xl flex flex-col justify-center my-4">
-        {error && (step === 'reference' || step === 'estimation') && (
-             <div className="w-full max-w-lg mx-auto mb-4 p-4 bg-red-900/50 border border-red-700 text-red-200 rounded-lg text-center animate-fade-in">
-                <p className="font-bold mb-2">Analysis Failed</p>
-                <p className="text-sm">{error}</p>
-                <p className="text-xs text-red-400 mt-3">
-                    If this issue persists, you can
-                    <a href="mailto:support@bodymetricsvision.com?subject=Image%20Analysis%20Error%20Report" className="font-semibold underline hover:text-white ml-1">
-                        report the error
-                    </a>.
-                </p>
-             </div>
-          )}
         <div className="bg-gray-800/50 rounded-2xl shadow-2xl p-6 backdrop-blur-sm border border-gray-700 min-h-[50vh] sm:min-h-[450px] flex items-center justify-center relative">
           {renderContent()}
         </div>
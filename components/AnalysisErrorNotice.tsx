@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import type { CaptureMethod } from '../types';
+import type { AnalysisError, AnalysisErrorCode } from '../services/analysisError';
+import { ClipboardIcon, CheckIcon } from './icons';
+
+type RecoveryAction = 'retake' | 'retry' | 'switch_to_reference';
+
+interface AnalysisErrorNoticeProps {
+    error: AnalysisError;
+    method: CaptureMethod;
+    /** Back to the capture step for a new photo. */
+    onRetake: () => void;
+    /** Re-runs the analysis with the same image(s). */
+    onRetry: () => void;
+    onSwitchToReference: () => void;
+    onStartOver: () => void;
+}
+
+const titles: Record<AnalysisErrorCode, string> = {
+    no_person: 'No person found',
+    child_detected: 'Adults only',
+    image_unclear: 'Image unclear',
+    multiple_people: 'More than one person',
+    network: 'Connection problem',
+    quota: 'Service busy',
+    invalid_response: 'Unexpected response',
+    timeout: 'Analysis timed out',
+};
+
+// The first action is the primary one. Photo problems need a new photo; transport problems are worth retrying as-is.
+const recoveryActions = (code: AnalysisErrorCode, method: CaptureMethod): RecoveryAction[] => {
+    const referenceFallback: RecoveryAction[] = method === 'paper' ? [] : ['switch_to_reference'];
+    switch (code) {
+        case 'no_person':
+        case 'multiple_people':
+            return ['retake'];
+        case 'image_unclear':
+            return ['retake', ...referenceFallback];
+        case 'child_detected':
+            return [];
+        case 'network':
+        case 'quota':
+        case 'timeout':
+            return ['retry'];
+        case 'invalid_response':
+            return ['retry', 'retake', ...referenceFallback];
+    }
+};
+
+const actionLabels: Record<RecoveryAction, string> = {
+    retake: 'Retake photo',
+    retry: 'Try again',
+    switch_to_reference: 'Use a reference object',
+};
+
+export const AnalysisErrorNotice: React.FC<AnalysisErrorNoticeProps> = ({ error, method, onRetake, onRetry, onSwitchToReference, onStartOver }) => {
+    const [copied, setCopied] = useState(false);
+    const actions = recoveryActions(error.code, method);
+    const handlers: Record<RecoveryAction, () => void> = {
+        retake: onRetake,
+        retry: onRetry,
+        switch_to_reference: onSwitchToReference,
+    };
+
+    const handleCopy = async () => {
+        try {
+            await navigator.clipboard.writeText(`${error.diagnosticId} (${error.code})`);
+            setCopied(true);
+        } catch (err) {
+            console.warn('Could not copy the diagnostic ID:', err);
+        }
+    };
+
+    return (
+        <div className="w-full flex flex-col items-center text-center gap-4 animate-fade-in">
+            <div className="w-full p-4 bg-red-900/50 border border-red-700 text-red-200 rounded-lg">
+                <p className="font-bold mb-2">{titles[error.code]}</p>
+                <p className="text-sm">{error.message}</p>
+            </div>
+
+            <div className="flex flex-col sm:flex-row gap-2 w-full sm:w-auto">
+                {actions.map((action, index) => (
+                    <button
+                        key={action}
+                        onClick={handlers[action]}
+                        className={`w-full sm:w-auto text-white font-bold py-3 px-6 rounded-lg transition-colors ${index === 0 ? 'bg-cyan-600 hover:bg-cyan-500' : 'bg-gray-600 hover:bg-gray-500'}`}
+                    >
+                        {actionLabels[action]}
+                    </button>
+                ))}
+                <button
+                    onClick={onStartOver}
+                    className={`w-full sm:w-auto text-white font-bold py-3 px-6 rounded-lg transition-colors ${actions.length === 0 ? 'bg-cyan-600 hover:bg-cyan-500' : 'bg-gray-600 hover:bg-gray-500'}`}
+                >
+                    Start over
+                </button>
+            </div>
+
+            <p className="text-xs text-gray-400 flex items-center gap-2">
+                If this keeps happening, include this ID when you report it:
+                <button onClick={handleCopy} className="flex items-center gap-1 font-mono text-gray-200 hover:text-white" title="Copy diagnostic ID">
+                    {error.diagnosticId}
+                    {copied ? <CheckIcon className="w-4 h-4 text-green-400" /> : <ClipboardIcon />}
+                </button>
+            </p>
+        </div>
+    );
+};
@@ -0,0 +1,96 @@
+import React, { useState } from 'react';
+import type { BoundingBox, CapturedImage, Landmarks, NormalizedPoint } from '../types';
+
+interface AnnotatedImageProps {
+    image: CapturedImage;
+    landmarks?: Landmarks;
+    /** Outline of the person the user picked, when the photo showed several adults. */
+    subjectBox?: BoundingBox;
+}
+
+const COLORS = {
+    height: '#22d3ee',
+    armSpan: '#a78bfa',
+    paper: '#facc15',
+    subject: '#f472b6',
+};
+
+const toPercent = (value: number) => `${value * 100}%`;
+
+const midpoint = (points: NormalizedPoint[]): NormalizedPoint => ({
+    x: points.reduce((sum, p) => sum + p.x, 0) / points.length,
+    y: points.reduce((sum, p) => sum + p.y, 0) / points.length,
+});
+
+const Dot: React.FC<{ point: NormalizedPoint; color: string; label: string }> = ({ point, color, label }) => (
+    <div
+        className="absolute w-3 h-3 -ml-1.5 -mt-1.5 rounded-full border-2 border-white shadow"
+        style={{ left: toPercent(point.x), top: toPercent(point.y), backgroundColor: color }}
+        title={label}
+    />
+);
+
+/** The analyzed photo with the keypoints the model measured drawn on top, so users can sanity-check it. */
+export const AnnotatedImage: React.FC<AnnotatedImageProps> = ({ image, landmarks, subjectBox }) => {
+    const [showOverlay, setShowOverlay] = useState(true);
+    const feetCenter = landmarks?.feet.length ? midpoint(landmarks.feet) : undefined;
+
+    return (
+        <div className="w-full flex flex-col items-center gap-2 mb-6">
+            <div className="relative inline-block max-w-full">
+                <img src={`data:${image.mimeType};base64,${image.base64Image}`} alt="Analyzed" className="rounded-lg max-h-80 w-auto block" />
+                {landmarks && showOverlay && (
+                    <div className="absolute inset-0 pointer-events-none">
+                        {/* Lines are drawn in a stretched 0-100 box; non-scaling strokes keep them crisp. */}
+                        <svg className="absolute inset-0 w-full h-full" viewBox="0 0 100 100" preserveAspectRatio="none">
+                            {landmarks.headTop && feetCenter && (
+                                <line
+                                    x1={landmarks.headTop.x * 100} y1={landmarks.headTop.y * 100}
+                                    x2={feetCenter.x * 100} y2={feetCenter.y * 100}
+                                    stroke={COLORS.height} strokeWidth={2} strokeDasharray="6 4" vectorEffect="non-scaling-stroke"
+                                />
+                            )}
+                            {landmarks.fingertips.length === 2 && (
+                                <line
+                                    x1={landmarks.fingertips[0].x * 100} y1={landmarks.fingertips[0].y * 100}
+                                    x2={landmarks.fingertips[1].x * 100} y2={landmarks.fingertips[1].y * 100}
+                                    stroke={COLORS.armSpan} strokeWidth={2} strokeDasharray="6 4" vectorEffect="non-scaling-stroke"
+                                />
+                            )}
+                            {subjectBox && (
+                                <rect
+                                    x={subjectBox.x * 100} y={subjectBox.y * 100}
+                                    width={subjectBox.width * 100} height={subjectBox.height * 100}
+                                    fill="none" stroke={COLORS.subject} strokeWidth={2} vectorEffect="non-scaling-stroke"
+                                />
+                            )}
+                            {landmarks.paperCorners.length === 4 && (
+                                <polygon
+                                    points={landmarks.paperCorners.map(p => `${p.x * 100},${p.y * 100}`).join(' ')}
+                                    fill={COLORS.paper} fillOpacity={0.2}
+                                    stroke={COLORS.paper} strokeWidth={2} vectorEffect="non-scaling-stroke"
+                                />
+                            )}
+                        </svg>
+                        {landmarks.headTop && <Dot point={landmarks.headTop} color={COLORS.height} label="Top of head" />}
+                        {landmarks.feet.map((p, i) => <Dot key={`foot-${i}`} point={p} color={COLORS.height} label="Foot" />)}
+                        {landmarks.fingertips.map((p, i) => <Dot key={`finger-${i}`} point={p} color={COLORS.armSpan} label="Fingertip" />)}
+                    </div>
+                )}
+            </div>
+            {landmarks ? (
+                <div className="flex flex-wrap items-center justify-center gap-3 text-xs text-gray-400">
+                    <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-full" style={{ backgroundColor: COLORS.height }} />Head to feet</span>
+                    {landmarks.fingertips.length > 0 && <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-full" style={{ backgroundColor: COLORS.armSpan }} />Arm span</span>}
+                    {subjectBox && <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-full" style={{ backgroundColor: COLORS.subject }} />Selected person</span>}
+                    {landmarks.paperCorners.length > 0 && <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-full" style={{ backgroundColor: COLORS.paper }} />Reference object</span>}
+                    <button onClick={() => setShowOverlay(v => !v)} className="text-cyan-400 hover:text-cyan-300 font-semibold">
+                        {showOverlay ? 'Hide markers' : 'Show markers'}
+                    </button>
+                </div>
+            ) : (
+                <p className="text-xs text-gray-500">No measurement markers were returned for this image.</p>
+            )}
+        </div>
+    );
+};
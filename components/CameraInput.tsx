@@ -1,18 +1,118 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { ArrowLeftIcon, CameraOffIcon, UserIcon } from './icons';
+import type { CameraCaptureInfo, CameraResolution, CaptureMethod, CaptureView, CapturedImage, ImageQuality, ReferenceObject } from '../types';
+import { ArrowLeftIcon, CameraOffIcon } from './icons';
+import { ViewProgress, viewLabels, MULTI_VIEW_SEQUENCE, REQUIRED_MULTI_VIEWS } from './ViewProgress';
+import { QualityWarnings } from './QualityWarnings';
+import { FramingOverlay, isFramingOk, useFramingGuidance } from './FramingGuide';
+import { assessImageQuality } from '../utils/imageQuality';
+import { preprocessImage } from '../utils/imagePreprocess';
+import { captureSharpestFrame, frameMotion, sampleSharpFrames, sampleFrame, type FrameSample } from '../utils/frameSampling';
+import { beep, speak, stopSpeaking, unlockAudio } from '../services/audioCues';
+import { CAMERA_RESOLUTIONS, loadCameraPreferences, saveCameraPreferences, type CameraPreferences } from '../services/cameraPreferences';
 
 interface CameraInputProps {
-  onAnalyze: (base64Image: string) => void;
+  onAnalyze: (images: CapturedImage[]) => void;
   onBack: () => void;
+  multiView: boolean;
+  /** What the framing checks look for: level arms for the Guided Pose, the reference object for 'paper'. */
+  method: CaptureMethod;
+  reference?: ReferenceObject;
+  /** Images to start with, e.g. after a cancelled analysis. The last one is shown as the preview. */
+  initialImages?: CapturedImage[];
+  /** Enables the sequence mode, which hands over several frames sampled from the live preview to be analyzed one by one. */
+  onAnalyzeFrames?: (frames: CapturedImage[]) => void;
 }
 
-export const CameraInput: React.FC<CameraInputProps> = ({ onAnalyze, onBack }) => {
+type CaptureKind = 'photo' | 'sequence';
+
+// Zoom and torch come from the Image Capture spec, which TypeScript's DOM types don't cover yet.
+interface ZoomTorchCapabilities {
+  zoom?: { min: number; max: number; step?: number };
+  torch?: boolean;
+}
+type ZoomTorchSettings = { zoom?: number; torch?: boolean };
+
+/** What the active track can do, read once it starts. */
+interface TrackControls {
+  zoom?: { min: number; max: number; step: number; value: number };
+  torch?: boolean;
+}
+
+/** 'off' captures on tap; a number starts a self-timer of that many seconds; 'auto' waits for a steady frame. */
+type HandsFreeMode = 'off' | 3 | 5 | 10 | 'auto';
+
+const HANDS_FREE_OPTIONS: { mode: HandsFreeMode; label: string }[] = [
+  { mode: 'off', label: 'Off' },
+  { mode: 3, label: '3s' },
+  { mode: 5, label: '5s' },
+  { mode: 10, label: '10s' },
+  { mode: 'auto', label: 'Auto' },
+];
+
+const BURST_FRAMES = 5;
+const BURST_INTERVAL_MS = 120;
+
+const selectClassName = "flex-1 min-w-0 bg-gray-900 text-white rounded-lg px-2 py-1 border border-gray-600 focus:outline-none focus:border-cyan-500 disabled:cursor-not-allowed";
+
+// Sequence mode: 4 s of the live preview yield this many frames, each the sharpest of a few candidates.
+const SEQUENCE = { durationMs: 4000, frameCount: 5, samplesPerFrame: 4 };
+
+// Auto-capture samples the preview a few times a second and fires once it has barely changed for STEADY_MS.
+const STEADY_SAMPLE_MS = 250;
+const STEADY_MS = 1500;
+/** Mean brightness change between samples that still counts as standing still (sensor noise, breathing). */
+const STEADY_MOTION = 0.015;
+/** Time to walk back into position before a steady frame counts. */
+const AUTO_GRACE_MS = 3000;
+/** Minimum gap between spoken prompts, so a fidgety subject isn't told to hold still over and over. */
+const PROMPT_INTERVAL_MS = 4000;
+
+export const CameraInput: React.FC<CameraInputProps> = ({ onAnalyze, onBack, multiView, method, reference, initialImages = [], onAnalyzeFrames }) => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const streamRef = useRef<MediaStream | null>(null);
   const [error, setError] = useState<string | null>(null);
-  const [capturedImage, setCapturedImage] = useState<string | null>(null);
+  const [preferences, setPreferences] = useState<CameraPreferences>(loadCameraPreferences);
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+  // The device actually streaming, which differs from the preference until one is picked or when it's unplugged.
+  const [activeDeviceId, setActiveDeviceId] = useState<string | undefined>(undefined);
+  const [isMirrored, setIsMirrored] = useState(false);
+  const [controls, setControls] = useState<TrackControls>({});
+  // Bumped by "Try Again" to restart the camera with the same preferences.
+  const [cameraAttempt, setCameraAttempt] = useState(0);
+  const initialPreview = initialImages[initialImages.length - 1];
+  const [capturedImage, setCapturedImage] = useState<string | null>(initialPreview?.base64Image ?? null);
+  const [capturedMimeType, setCapturedMimeType] = useState(initialPreview?.mimeType ?? 'image/jpeg');
+  const [previewQuality, setPreviewQuality] = useState<ImageQuality | undefined>(initialPreview?.quality);
+  const [previewCamera, setPreviewCamera] = useState<CameraCaptureInfo | undefined>(initialPreview?.camera);
   const [isCameraInitializing, setIsCameraInitializing] = useState(true);
+  const [handsFree, setHandsFree] = useState<HandsFreeMode>('off');
+  // Seconds left on the self-timer, or null when no countdown is running.
+  const [countdown, setCountdown] = useState<number | null>(null);
+  const [isAutoCapturing, setIsAutoCapturing] = useState(false);
+  const [isSteady, setIsSteady] = useState(false);
+  const [isCapturing, setIsCapturing] = useState(false);
+  // Several views are several photos, so sequence mode is single-view only.
+  const canSample = !!onAnalyzeFrames && !multiView;
+  const [captureKind, setCaptureKind] = useState<CaptureKind>('photo');
+  const [sequenceFrames, setSequenceFrames] = useState<CapturedImage[] | null>(null);
+  const [samplingMs, setSamplingMs] = useState<number | null>(null);
+  // Views already accepted in multi-view mode; `capturedImage` is the preview of the current view.
+  const [acceptedImages, setAcceptedImages] = useState<CapturedImage[]>(initialImages.slice(0, -1));
+  const [views, setViews] = useState<CaptureView[]>(() => initialImages.length > 0
+    ? initialImages.map(image => image.view)
+    : multiView ? MULTI_VIEW_SEQUENCE.slice(0, REQUIRED_MULTI_VIEWS) : ['front']);
+
+  const activeView = views.find(view => !acceptedImages.some(image => image.view === view)) ?? views[views.length - 1];
+  const remainingViews = views.filter(view => view !== activeView && !acceptedImages.some(image => image.view === view));
+  const nextOptionalView = multiView ? MULTI_VIEW_SEQUENCE.find(view => !views.includes(view)) : undefined;
+
+  const framing = useFramingGuidance(videoRef, { active: !capturedImage && !error && !isCameraInitializing, method, reference, view: activeView });
+  const framingOk = isFramingOk(framing);
+  const failingCheck = framing.status === 'ready' ? framing.checks.find(check => !check.passed) : undefined;
+  // Read by the auto-capture loop, which outlives a single render.
+  const failingCheckRef = useRef(failingCheck);
+  failingCheckRef.current = failingCheck;
 
   // Effect to manage camera stream based on capture state
   useEffect(() => {
@@ -30,6 +130,7 @@ export const CameraInput: React.FC<CameraInputProps> = ({ onAnalyze, onBack }) =
 
         const setStream = (mediaStream: MediaStream) => {
             streamRef.current = mediaStream;
+            readTrack(mediaStream.getVideoTracks()[0]);
             if (videoRef.current) {
                 videoRef.current.srcObject = mediaStream;
                 videoRef.current.onloadeddata = () => {
@@ -69,19 +170,31 @@ export const CameraInput: React.FC<CameraInputProps> = ({ onAnalyze, onBack }) =
             }
             setError(errorMessage);
             setIsCameraInitializing(false);
+            // The picker stays available on the error panel, so another camera can be chosen.
+            refreshDevices();
         };
 
-        const idealConstraints: MediaStreamConstraints = { video: { facingMode: { ideal: 'environment' } } };
+        const { width, height } = CAMERA_RESOLUTIONS[preferences.resolution];
+        const resolutionConstraints: MediaTrackConstraints = width && height ? { width: { ideal: width }, height: { ideal: height } } : {};
+        const idealConstraints: MediaStreamConstraints = {
+            video: preferences.deviceId
+                ? { deviceId: { exact: preferences.deviceId }, ...resolutionConstraints }
+                : { facingMode: { ideal: 'environment' }, ...resolutionConstraints },
+        };
         const fallbackConstraints: MediaStreamConstraints = { video: true };
 
         try {
-            // 1. Try ideal constraints (rear camera)
+            // 1. Try ideal constraints (the remembered camera, else the rear one)
             const mediaStream = await navigator.mediaDevices.getUserMedia(idealConstraints);
             setStream(mediaStream);
         } catch (err) {
-            // 2. If it fails with a constraint error, try the fallback
-            if (err instanceof DOMException && (err.name === 'OverconstrainedError' || err.name === 'ConstraintNotSatisfiedError')) {
-                console.warn("Could not get environment camera, falling back to default.");
+            // 2. If it fails with a constraint error, or the remembered camera fails for any reason but
+            //    permissions (unplugged, busy, broken), try the fallback. The remembered camera is kept,
+            //    since a busy one usually works again next time.
+            const isPermissionError = err instanceof DOMException && (err.name === 'NotAllowedError' || err.name === 'PermissionDeniedError');
+            const isConstraintError = err instanceof DOMException && (err.name === 'OverconstrainedError' || err.name === 'ConstraintNotSatisfiedError');
+            if (isConstraintError || (!!preferences.deviceId && !isPermissionError)) {
+                console.warn("Could not get the preferred camera, falling back to default.");
                 try {
                     const mediaStream = await navigator.mediaDevices.getUserMedia(fallbackConstraints);
                     setStream(mediaStream);
@@ -104,49 +217,309 @@ export const CameraInput: React.FC<CameraInputProps> = ({ onAnalyze, onBack }) =
 
     // Cleanup function to stop the stream when the component unmounts
     return stopStream;
-  }, [capturedImage]);
+  }, [capturedImage, preferences.deviceId, preferences.resolution, cameraAttempt]);
 
-  const handleCapture = () => {
+  // Device labels are only exposed once camera permission is granted, so the list is read after the stream starts.
+  const refreshDevices = () => {
+    navigator.mediaDevices.enumerateDevices()
+      .then(all => setDevices(all.filter(device => device.kind === 'videoinput')))
+      .catch(err => console.warn('Could not list cameras:', err));
+  };
+
+  useEffect(() => {
+    navigator.mediaDevices.addEventListener?.('devicechange', refreshDevices);
+    return () => navigator.mediaDevices.removeEventListener?.('devicechange', refreshDevices);
+  }, []);
+
+  const readTrack = (track: MediaStreamTrack | undefined) => {
+    if (!track) return;
+    const settings = track.getSettings() as MediaTrackSettings & ZoomTorchSettings;
+    const capabilities = (typeof track.getCapabilities === 'function' ? track.getCapabilities() : {}) as ZoomTorchCapabilities;
+    setActiveDeviceId(settings.deviceId);
+    setIsMirrored(settings.facingMode === 'user');
+    setControls({
+      zoom: capabilities.zoom && capabilities.zoom.max > capabilities.zoom.min
+        ? { min: capabilities.zoom.min, max: capabilities.zoom.max, step: capabilities.zoom.step || 0.1, value: settings.zoom ?? capabilities.zoom.min }
+        : undefined,
+      torch: capabilities.torch ? settings.torch ?? false : undefined,
+    });
+    refreshDevices();
+  };
+
+  const applyControl = (constraint: ZoomTorchSettings, next: TrackControls) => {
+    const track = streamRef.current?.getVideoTracks()[0];
+    if (!track) return;
+    track.applyConstraints({ advanced: [constraint as MediaTrackConstraintSet] })
+      .then(() => setControls(next))
+      .catch(err => console.warn('Camera control not applied:', err));
+  };
+
+  const updatePreferences = (next: CameraPreferences) => {
+    setPreferences(next);
+    saveCameraPreferences(next);
+  };
+
+  const describeCamera = (video: HTMLVideoElement): CameraCaptureInfo | undefined => {
+    const track = streamRef.current?.getVideoTracks()[0];
+    if (!track) return undefined;
+    const settings = track.getSettings() as MediaTrackSettings & ZoomTorchSettings;
+    return {
+      deviceLabel: track.label || undefined,
+      facingMode: settings.facingMode,
+      requestedResolution: preferences.resolution,
+      width: video.videoWidth,
+      height: video.videoHeight,
+      mirrored: isMirrored,
+      zoom: settings.zoom,
+      torch: settings.torch,
+    };
+  };
+
+  // Draws a grabbed frame like the preview shows it and normalizes it like an upload. Closes the frame.
+  const frameToImage = async (frame: ImageBitmap, canvas: HTMLCanvasElement, mirrored: boolean) => {
+    canvas.width = frame.width;
+    canvas.height = frame.height;
+    const context = canvas.getContext('2d');
+    if (context) {
+      // Flip the image horizontally if it's a user-facing camera to match the preview
+      if (mirrored) {
+          context.translate(frame.width, 0);
+          context.scale(-1, 1);
+      }
+      context.drawImage(frame, 0, 0, frame.width, frame.height);
+    }
+    frame.close();
+
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', 0.95)); // Explicitly set high quality
+    if (!blob) {
+      throw new Error("Couldn't capture a frame from the camera. Please try again.");
+    }
+    // Same normalization as uploads, so both paths send the model identically sized images.
+    return preprocessImage(blob);
+  };
+
+  const captureSequence = async (video: HTMLVideoElement, canvas: HTMLCanvasElement, camera: CameraCaptureInfo | undefined) => {
+    setSamplingMs(0);
+    try {
+      const bitmaps = await sampleSharpFrames(video, SEQUENCE, setSamplingMs);
+      const frames: CapturedImage[] = [];
+      for (const bitmap of bitmaps) {
+        const image = await frameToImage(bitmap, canvas, isMirrored);
+        // Any frame can end up representing the sequence's result, so each carries its own quality report.
+        const quality = await assessImageQuality(image.base64Image, image.mimeType).catch(err => {
+          console.warn('Image quality check failed:', err);
+          return undefined;
+        });
+        frames.push({ view: 'front', ...image, quality, camera });
+      }
+      setSequenceFrames(frames);
+      return frames[0];
+    } finally {
+      setSamplingMs(null);
+    }
+  };
+
+  const captureFrame = async () => {
     if (videoRef.current && canvasRef.current && streamRef.current && videoRef.current.readyState >= 2) {
       const video = videoRef.current;
       const canvas = canvasRef.current;
-      canvas.width = video.videoWidth;
-      canvas.height = video.videoHeight;
-      const context = canvas.getContext('2d');
-      
-      if (context) {
-        const settings = streamRef.current.getVideoTracks()[0].getSettings();
-        // Flip the image horizontally if it's a user-facing camera to match the preview
-        if (settings.facingMode === 'user') {
-            context.translate(video.videoWidth, 0);
-            context.scale(-1, 1);
+      const camera = describeCamera(video);
+      setIsCapturing(true);
+      try {
+        if (captureKind === 'sequence' && canSample) {
+          const { base64Image, mimeType, quality } = await captureSequence(video, canvas, camera);
+          setCapturedImage(base64Image);
+          setCapturedMimeType(mimeType);
+          setPreviewCamera(camera);
+          setPreviewQuality(quality);
+        } else {
+          const { base64Image, mimeType } = await frameToImage(await captureSharpestFrame(video, BURST_FRAMES, BURST_INTERVAL_MS), canvas, isMirrored);
+          setCapturedImage(base64Image);
+          setCapturedMimeType(mimeType);
+          setPreviewCamera(camera);
+          setPreviewQuality(undefined);
+          assessImageQuality(base64Image, mimeType)
+            .then(setPreviewQuality)
+            .catch(err => console.warn('Image quality check failed:', err));
         }
-        context.drawImage(video, 0, 0, video.videoWidth, video.videoHeight);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Couldn't process the captured frame.");
+      } finally {
+        setIsCapturing(false);
       }
+    }
+  };
+
+  const captureFrameRef = useRef(captureFrame);
+  captureFrameRef.current = captureFrame;
 
-      const dataUrl = canvas.toDataURL('image/jpeg', 0.95); // Explicitly set high quality
-      const base64 = dataUrl.split(',')[1];
-      setCapturedImage(base64);
+  // Self-timer: tick once a second with a beep, then capture on zero.
+  useEffect(() => {
+    if (countdown === null) return;
+    if (countdown === 0) {
+      beep(true);
+      setCountdown(null);
+      captureFrameRef.current();
+      return;
     }
+    beep();
+    const timer = setTimeout(() => setCountdown(seconds => seconds === null ? null : seconds - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [countdown]);
+
+  // Auto-capture: watch the preview and fire once it has been steady for a moment.
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!isAutoCapturing || !video) return;
+    const canvas = document.createElement('canvas');
+    const startedAt = Date.now();
+    let previous: FrameSample | null = null;
+    let steadySince: number | null = null;
+    let lastPromptAt = startedAt;
+    speak('Step back until your whole body is in the frame.');
+
+    const interval = setInterval(() => {
+      if (video.readyState < 2) return;
+      const sample = sampleFrame(video, canvas);
+      const motion = previous ? frameMotion(previous, sample) : 1;
+      previous = sample;
+      const now = Date.now();
+      // Standing still in the wrong spot doesn't count: wait until the framing checks pass too.
+      const failing = failingCheckRef.current;
+      if (now - startedAt < AUTO_GRACE_MS || motion > STEADY_MOTION || failing) {
+        steadySince = null;
+        setIsSteady(false);
+        if (failing && now - startedAt >= AUTO_GRACE_MS && now - lastPromptAt >= PROMPT_INTERVAL_MS) {
+          speak(failing.hint);
+          lastPromptAt = now;
+        }
+        return;
+      }
+      if (steadySince === null) {
+        steadySince = now;
+        setIsSteady(true);
+        if (now - lastPromptAt >= PROMPT_INTERVAL_MS) {
+          speak('Hold still.');
+          lastPromptAt = now;
+        }
+      } else if (now - steadySince >= STEADY_MS) {
+        clearInterval(interval);
+        beep(true);
+        setIsAutoCapturing(false);
+        captureFrameRef.current();
+      }
+    }, STEADY_SAMPLE_MS);
+
+    return () => {
+      clearInterval(interval);
+      setIsSteady(false);
+    };
+  }, [isAutoCapturing]);
+
+  // A finished capture, an error or leaving the screen ends any pending hands-free capture.
+  useEffect(() => {
+    if (capturedImage || error) {
+      setCountdown(null);
+      setIsAutoCapturing(false);
+    }
+  }, [capturedImage, error]);
+
+  useEffect(() => {
+    if (capturedImage && handsFree !== 'off') {
+      speak('Got it.');
+    }
+  }, [capturedImage, handsFree]);
+
+  useEffect(() => stopSpeaking, []);
+
+  const isWaiting = countdown !== null || isAutoCapturing;
+
+  const handleCapture = () => {
+    if (isWaiting) {
+      setCountdown(null);
+      setIsAutoCapturing(false);
+      stopSpeaking();
+      return;
+    }
+    if (handsFree === 'off') {
+      captureFrame();
+      return;
+    }
+    unlockAudio();
+    if (handsFree === 'auto') {
+      setIsAutoCapturing(true);
+    } else {
+      setCountdown(handsFree);
+    }
+  };
+
+  const captureLabel = () => {
+    const verb = captureKind === 'sequence' && canSample ? 'Sample' : 'Capture';
+    if (isCameraInitializing) return 'Starting...';
+    if (samplingMs !== null) return `Sampling... ${Math.max(0, Math.ceil((SEQUENCE.durationMs - samplingMs) / 1000))}s`;
+    if (isCapturing) return 'Capturing...';
+    if (isWaiting) return 'Cancel';
+    if (handsFree === 'auto') return `Start Auto-${verb}`;
+    if (handsFree !== 'off') return `${verb} in ${handsFree}s`;
+    return framingOk ? verb : `${verb} Anyway`;
   };
 
   const handleRetake = () => {
+    setSequenceFrames(null);
     setCapturedImage(null);
+    setPreviewQuality(undefined);
     setIsCameraInitializing(true);
   };
   
-  const handleAnalyze = () => {
+  const currentImage = (): CapturedImage => ({ view: activeView, base64Image: capturedImage!, mimeType: capturedMimeType, quality: previewQuality, camera: previewCamera });
+
+  const acceptCurrent = () => {
+    setAcceptedImages(prev => [...prev, currentImage()]);
+    setCapturedImage(null);
+    setPreviewQuality(undefined);
+  };
+
+  const handleNextView = () => {
     if (capturedImage) {
-        onAnalyze(capturedImage);
+        acceptCurrent();
+    }
+  };
+
+  const handleAddView = (view: CaptureView) => {
+    if (capturedImage) {
+        acceptCurrent();
+        setViews(prev => [...prev, view]);
+    }
+  };
+
+  const handleAnalyze = () => {
+    if (sequenceFrames && onAnalyzeFrames) {
+        onAnalyzeFrames(sequenceFrames);
+    } else if (capturedImage) {
+        onAnalyze([...acceptedImages, currentImage()]);
     }
   };
 
+  const hasQualityIssues = [...acceptedImages.map(image => image.quality), previewQuality, ...(sequenceFrames ?? []).map(frame => frame.quality)]
+    .some(quality => quality && quality.issues.length > 0);
+
+  const title = multiView
+    ? `${viewLabels[activeView]} View${capturedImage ? ' Preview' : ''}`
+    : sequenceFrames ? "Sequence Preview" : capturedImage ? "Preview" : "Live Camera";
+
   return (
     <div className="w-full p-4 flex flex-col gap-4 items-center animate-fade-in">
        <button onClick={onBack} className="absolute top-6 left-6 text-gray-400 hover:text-white transition-colors">
           <ArrowLeftIcon />
        </button>
-       <h2 className="text-2xl font-bold text-white">{capturedImage ? "Preview" : "Live Camera"}</h2>
+       <h2 className="text-2xl font-bold text-white">{title}</h2>
+       {multiView && <ViewProgress views={views} captured={acceptedImages} activeView={activeView} />}
+       {multiView && !capturedImage && activeView === 'side' && (
+           <p className="text-sm text-gray-400 text-center">Turn 90° so your profile faces the camera, arms relaxed at your sides.</p>
+       )}
+       {multiView && !capturedImage && activeView === 'back' && (
+           <p className="text-sm text-gray-400 text-center">Turn around so your back faces the camera.</p>
+       )}
        
        <div className="w-full max-w-sm aspect-[9/16] bg-gray-900 rounded-lg overflow-hidden relative flex items-center justify-center">
         {error ? (
@@ -154,6 +527,16 @@ export const CameraInput: React.FC<CameraInputProps> = ({ onAnalyze, onBack }) =
             <CameraOffIcon className="w-16 h-16 text-gray-600 mb-4" />
             <p className="text-red-400 font-semibold">Camera Error</p>
             <p className="text-gray-400 text-sm">{error}</p>
+            <div className="flex flex-wrap justify-center gap-2 mt-4">
+                <button onClick={() => setCameraAttempt(attempt => attempt + 1)} className="bg-cyan-600 text-white font-semibold py-1 px-4 rounded-lg hover:bg-cyan-500 transition-colors">
+                    Try Again
+                </button>
+                {preferences.deviceId && (
+                    <button onClick={() => updatePreferences({ ...preferences, deviceId: undefined })} className="bg-gray-600 text-white font-semibold py-1 px-4 rounded-lg hover:bg-gray-500 transition-colors">
+                        Use Default Camera
+                    </button>
+                )}
+            </div>
           </div>
         ) : (
             <>
@@ -165,29 +548,159 @@ export const CameraInput: React.FC<CameraInputProps> = ({ onAnalyze, onBack }) =
                     autoPlay 
                     playsInline 
                     // Mirror the video preview if it's a front-facing camera
-                    style={{ transform: streamRef.current?.getVideoTracks()[0]?.getSettings()?.facingMode === 'user' ? 'scaleX(-1)' : 'scaleX(1)' }}
+                    style={{ transform: isMirrored ? 'scaleX(-1)' : 'scaleX(1)' }}
                     className={`w-full h-full object-cover ${capturedImage || isCameraInitializing ? 'hidden' : 'block'}`}
                 />
-                {!capturedImage && (
-                    <div className="absolute inset-0 flex items-center justify-center pointer-events-none p-4">
-                        <UserIcon className="w-full h-full text-white/10" />
+                {!capturedImage && !isCameraInitializing && <FramingOverlay guidance={framing} mirrored={isMirrored} />}
+                {!capturedImage && countdown !== null && countdown > 0 && (
+                    <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+                        <span key={countdown} className="text-8xl font-bold text-white drop-shadow-lg animate-fade-in">{countdown}</span>
+                    </div>
+                )}
+                {!capturedImage && isAutoCapturing && (
+                    <div className={`absolute bottom-4 left-1/2 -translate-x-1/2 px-4 py-1 rounded-full text-sm font-semibold ${isSteady ? 'bg-green-600/80 text-white' : 'bg-gray-900/80 text-gray-200'}`}>
+                        {isSteady ? 'Hold still...' : failingCheck?.hint ?? 'Get into position'}
                     </div>
                 )}
                 <canvas ref={canvasRef} className="hidden"></canvas>
-                {capturedImage && <img src={`data:image/jpeg;base64,${capturedImage}`} alt="Captured" className="w-full h-full object-cover"/>}
+                {capturedImage && <img src={`data:${capturedMimeType};base64,${capturedImage}`} alt="Captured" className="w-full h-full object-cover"/>}
             </>
         )}
        </div>
 
+       {sequenceFrames && (
+           <div className="w-full max-w-sm flex flex-col gap-2">
+               <div className="flex gap-2 justify-center">
+                   {sequenceFrames.map((frame, index) => (
+                       <img key={index} src={`data:${frame.mimeType};base64,${frame.base64Image}`} alt={`Frame ${index + 1}`} className={`w-12 h-20 object-cover rounded border ${frame.quality?.issues.length ? 'border-amber-400' : 'border-gray-600'}`} />
+                   ))}
+               </div>
+               <p className="text-xs text-gray-400 text-center">{sequenceFrames.length} sharp frames from the sequence. Each is analyzed separately and the results are combined.</p>
+           </div>
+       )}
+
+       {capturedImage && (
+           <div className="w-full max-w-sm">
+               <QualityWarnings quality={previewQuality} />
+           </div>
+       )}
+
+       {canSample && !capturedImage && !error && (
+           <div className="flex bg-gray-900 rounded-full p-1 text-sm">
+               {(['photo', 'sequence'] as CaptureKind[]).map(kind => (
+                   <button
+                       key={kind}
+                       type="button"
+                       onClick={() => setCaptureKind(kind)}
+                       disabled={isWaiting || isCapturing}
+                       className={`px-4 py-1 rounded-full font-semibold transition-colors disabled:cursor-not-allowed ${captureKind === kind ? 'bg-cyan-600 text-white' : 'text-gray-400 hover:text-white'}`}
+                   >
+                       {kind === 'photo' ? 'Photo' : `Sequence (${SEQUENCE.durationMs / 1000}s)`}
+                   </button>
+               ))}
+           </div>
+       )}
+
+       {!capturedImage && (
+           <div className="w-full max-w-sm flex flex-col gap-2 text-sm text-gray-400">
+               <div className="flex gap-2">
+                   {devices.filter(device => device.deviceId).length > 1 && (
+                       <select
+                           value={error ? '' : activeDeviceId ?? ''}
+                           onChange={(e) => updatePreferences({ ...preferences, deviceId: e.target.value })}
+                           disabled={isWaiting || isCapturing}
+                           aria-label="Camera"
+                           className={selectClassName}
+                       >
+                           {error && <option value="" disabled>Choose a camera</option>}
+                           {devices.filter(device => device.deviceId).map((device, index) => (
+                               <option key={device.deviceId} value={device.deviceId}>{device.label || `Camera ${index + 1}`}</option>
+                           ))}
+                       </select>
+                   )}
+                   <select
+                       value={preferences.resolution}
+                       onChange={(e) => updatePreferences({ ...preferences, resolution: e.target.value as CameraResolution })}
+                       disabled={isWaiting || isCapturing}
+                       aria-label="Resolution"
+                       className={selectClassName}
+                   >
+                       {(Object.keys(CAMERA_RESOLUTIONS) as CameraResolution[]).map(resolution => (
+                           <option key={resolution} value={resolution}>{CAMERA_RESOLUTIONS[resolution].label}</option>
+                       ))}
+                   </select>
+               </div>
+               {!error && (controls.zoom || controls.torch !== undefined) && (
+                   <div className="flex items-center gap-3">
+                       {controls.zoom && (
+                           <label className="flex-1 flex items-center gap-2">
+                               Zoom
+                               <input
+                                   type="range"
+                                   min={controls.zoom.min}
+                                   max={controls.zoom.max}
+                                   step={controls.zoom.step}
+                                   value={controls.zoom.value}
+                                   onChange={(e) => {
+                                       const value = parseFloat(e.target.value);
+                                       applyControl({ zoom: value }, { ...controls, zoom: { ...controls.zoom!, value } });
+                                   }}
+                                   className="flex-1 accent-cyan-500"
+                               />
+                               <span className="w-10 text-right">{controls.zoom.value.toFixed(1)}×</span>
+                           </label>
+                       )}
+                       {controls.torch !== undefined && (
+                           <button
+                               type="button"
+                               onClick={() => applyControl({ torch: !controls.torch }, { ...controls, torch: !controls.torch })}
+                               className={`px-3 py-1 rounded-full font-semibold transition-colors ${controls.torch ? 'bg-yellow-500 text-gray-900' : 'bg-gray-900 text-gray-400 hover:text-white'}`}
+                           >
+                               {controls.torch ? 'Light on' : 'Light off'}
+                           </button>
+                       )}
+                   </div>
+               )}
+           </div>
+       )}
+
+       {!capturedImage && !error && (
+           <div className="flex items-center gap-2 text-sm text-gray-400">
+               <span>Hands-free</span>
+               <div className="flex bg-gray-900 rounded-full p-1">
+                   {HANDS_FREE_OPTIONS.map(({ mode, label }) => (
+                       <button
+                           key={mode}
+                           type="button"
+                           onClick={() => setHandsFree(mode)}
+                           disabled={isWaiting || isCapturing}
+                           className={`px-3 py-1 rounded-full font-semibold transition-colors disabled:cursor-not-allowed ${handsFree === mode ? 'bg-cyan-600 text-white' : 'text-gray-400 hover:text-white'}`}
+                       >
+                           {label}
+                       </button>
+                   ))}
+               </div>
+           </div>
+       )}
+
        <div className="flex gap-2 w-full max-w-sm">
         {capturedImage ? (
             <>
                 <button onClick={handleRetake} className="flex-1 bg-gray-600 text-white font-bold py-3 px-6 rounded-lg hover:bg-gray-500 transition-colors">Retake</button>
-                <button onClick={handleAnalyze} className="flex-1 bg-cyan-600 text-white font-bold py-3 px-6 rounded-lg hover:bg-cyan-500 transition-colors">Analyze</button>
+                {remainingViews.length > 0 ? (
+                    <button onClick={handleNextView} className="flex-1 bg-cyan-600 text-white font-bold py-3 px-6 rounded-lg hover:bg-cyan-500 transition-colors">Next: {viewLabels[remainingViews[0]]}</button>
+                ) : (
+                    <>
+                        {nextOptionalView && (
+                            <button onClick={() => handleAddView(nextOptionalView)} className="flex-1 bg-gray-600 text-white font-bold py-3 px-6 rounded-lg hover:bg-gray-500 transition-colors">+ {viewLabels[nextOptionalView]}</button>
+                        )}
+                        <button onClick={handleAnalyze} className="flex-1 bg-cyan-600 text-white font-bold py-3 px-6 rounded-lg hover:bg-cyan-500 transition-colors">{hasQualityIssues ? 'Analyze Anyway' : 'Analyze'}</button>
+                    </>
+                )}
             </>
         ) : (
-             <button onClick={handleCapture} disabled={!!error || isCameraInitializing} className="w-full bg-cyan-600 text-white font-bold py-3 px-6 rounded-lg hover:bg-cyan-500 transition-colors disabled:bg-gray-500 disabled:cursor-not-allowed">
-                {isCameraInitializing ? 'Starting...' : 'Capture'}
+             <button onClick={handleCapture} disabled={!!error || isCameraInitializing || isCapturing} className={`w-full text-white font-bold py-3 px-6 rounded-lg transition-colors disabled:bg-gray-500 disabled:cursor-not-allowed ${isWaiting ? 'bg-gray-600 hover:bg-gray-500' : handsFree === 'off' && !framingOk ? 'bg-amber-600 hover:bg-amber-500' : 'bg-cyan-600 hover:bg-cyan-500'}`}>
+                {captureLabel()}
              </button>
         )}
        </div>
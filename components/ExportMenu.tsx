@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import { listHistory } from '../services/historyStore';
+import { createPdfReport } from '../services/pdfReport';
+import { downloadBlob, exportFileName, toCsv, toJson, toShareText, type ExportableResult } from '../utils/exportData';
+import { DownloadIcon } from './icons';
+
+interface ExportMenuProps {
+    result: ExportableResult;
+}
+
+type ExportAction = 'pdf' | 'csv' | 'json' | 'history-csv' | 'history-json' | 'share';
+
+const actionLabels: Record<ExportAction, string> = {
+    pdf: 'PDF report',
+    csv: 'This result as CSV',
+    json: 'This result as JSON',
+    'history-csv': 'All history as CSV',
+    'history-json': 'All history as JSON',
+    share: 'Share…',
+};
+
+export const ExportMenu: React.FC<ExportMenuProps> = ({ result }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const [busy, setBusy] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    // Shown when the Web Share API isn't available, so the summary can still be copied by hand.
+    const [fallbackText, setFallbackText] = useState<string | null>(null);
+
+    const share = async () => {
+        const text = toShareText(result);
+        if (navigator.share) {
+            try {
+                await navigator.share({ title: 'Body Metrics Vision result', text });
+                return;
+            } catch (err) {
+                // The user closing the share sheet is not an error.
+                if (err instanceof Error && err.name === 'AbortError') return;
+                console.warn('Web Share failed, falling back to text:', err);
+            }
+        }
+        setFallbackText(text);
+    };
+
+    const run = async (action: ExportAction) => {
+        setIsOpen(false);
+        setError(null);
+        setBusy(true);
+        try {
+            switch (action) {
+                case 'pdf':
+                    downloadBlob(await createPdfReport(result), exportFileName('result', 'pdf', result.timestamp));
+                    break;
+                case 'csv':
+                    downloadBlob(new Blob([toCsv([result])], { type: 'text/csv' }), exportFileName('result', 'csv', result.timestamp));
+                    break;
+                case 'json':
+                    downloadBlob(new Blob([toJson([result])], { type: 'application/json' }), exportFileName('result', 'json', result.timestamp));
+                    break;
+                case 'history-csv':
+                    downloadBlob(new Blob([toCsv(await listHistory(result.profileId))], { type: 'text/csv' }), exportFileName('history', 'csv'));
+                    break;
+                case 'history-json':
+                    downloadBlob(new Blob([toJson(await listHistory(result.profileId))], { type: 'application/json' }), exportFileName('history', 'json'));
+                    break;
+                case 'share':
+                    await share();
+                    break;
+            }
+        } catch (err) {
+            console.error(`Export "${action}" failed:`, err);
+            setError('The export could not be created. Please try again.');
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    return (
+        <div className="relative w-full sm:w-auto">
+            <button
+                onClick={() => setIsOpen(open => !open)}
+                disabled={busy}
+                className="w-full sm:w-auto flex items-center justify-center gap-2 bg-gray-600 text-white font-bold py-3 px-8 rounded-lg hover:bg-gray-500 transition-colors disabled:bg-gray-500"
+                aria-haspopup="menu"
+                aria-expanded={isOpen}
+            >
+                <DownloadIcon />
+                {busy ? 'Exporting...' : 'Export'}
+            </button>
+            {isOpen && (
+                <div role="menu" className="absolute bottom-full mb-2 left-0 z-10 w-56 bg-gray-800 border border-gray-700 rounded-lg shadow-xl overflow-hidden">
+                    {(Object.keys(actionLabels) as ExportAction[]).map(action => (
+                        <button
+                            key={action}
+                            role="menuitem"
+                            onClick={() => run(action)}
+                            className="block w-full text-left px-4 py-2 text-sm text-gray-200 hover:bg-gray-700"
+                        >
+                            {actionLabels[action]}
+                        </button>
+                    ))}
+                </div>
+            )}
+            {error && <p className="text-xs text-red-400 mt-2">{error}</p>}
+            {fallbackText && (
+                <div className="mt-2 text-left">
+                    <p className="text-xs text-gray-400 mb-1">Sharing isn't supported here. Copy the summary instead:</p>
+                    <textarea readOnly value={fallbackText} rows={6} className="w-full bg-gray-900 text-gray-200 text-xs rounded p-2 border border-gray-700" onFocus={(e) => e.target.select()} />
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,165 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { CaptureMethod, CaptureView, ReferenceObject } from '../types';
+import { loadPoseDetector } from '../services/poseDetector';
+import { evaluateFraming, findSubject, needsPaperCoverage, paperCoverageNearFeet, type FramingCheck, type Pose } from '../utils/framingChecks';
+import { UserIcon } from './icons';
+
+/** 'unavailable' means the model couldn't be loaded; the camera then works without checks. */
+type GuidanceStatus = 'loading' | 'ready' | 'unavailable';
+
+export interface FramingGuidance {
+    status: GuidanceStatus;
+    subject?: Pose;
+    checks: FramingCheck[];
+    frameSize?: { width: number; height: number };
+}
+
+interface FramingOptions {
+    /** Only detect while the live preview is showing. */
+    active: boolean;
+    method: CaptureMethod;
+    reference?: ReferenceObject;
+    view: CaptureView;
+}
+
+// About seven detections a second: smooth enough to follow someone stepping back, light enough for phones.
+const DETECT_INTERVAL_MS = 150;
+/** Size of the copy of the frame that is searched for the paper. */
+const PAPER_SAMPLE_SIZE = 160;
+
+// Body only; the face points add clutter without helping anyone frame the shot.
+const SKELETON: [number, number][] = [
+    [11, 12], [11, 13], [13, 15], [12, 14], [14, 16], [11, 23], [12, 24], [23, 24],
+    [23, 25], [25, 27], [27, 29], [29, 31], [27, 31], [24, 26], [26, 28], [28, 30], [30, 32], [28, 32],
+];
+
+/** True when nothing is known to be wrong: no checks are run while the model is loading or unavailable. */
+export const isFramingOk = (guidance: FramingGuidance) => guidance.status !== 'ready' || guidance.checks.every(check => check.passed);
+
+/** Runs pose detection on the live preview and checks the framing against what the capture method needs. */
+export function useFramingGuidance(videoRef: React.RefObject<HTMLVideoElement | null>, { active, method, reference, view }: FramingOptions): FramingGuidance {
+    const [guidance, setGuidance] = useState<FramingGuidance>({ status: 'loading', checks: [] });
+    const tiltRef = useRef<{ beta: number; gamma: number } | undefined>(undefined);
+
+    // The tilt check only applies upright in portrait; landscape swaps the axes and is left unchecked.
+    useEffect(() => {
+        const handleOrientation = (event: DeviceOrientationEvent) => {
+            const portrait = window.matchMedia('(orientation: portrait)').matches;
+            tiltRef.current = portrait && event.beta !== null && event.gamma !== null ? { beta: event.beta, gamma: event.gamma } : undefined;
+        };
+        window.addEventListener('deviceorientation', handleOrientation);
+        return () => window.removeEventListener('deviceorientation', handleOrientation);
+    }, []);
+
+    useEffect(() => {
+        if (!active) return;
+        let cancelled = false;
+        let interval: ReturnType<typeof setInterval> | undefined;
+        const canvas = document.createElement('canvas');
+
+        loadPoseDetector().then(detector => {
+            if (cancelled) return;
+            if (!detector) {
+                setGuidance({ status: 'unavailable', checks: [] });
+                return;
+            }
+            interval = setInterval(() => {
+                const video = videoRef.current;
+                if (!video || video.readyState < 2 || video.videoWidth === 0) return;
+                try {
+                    const poses = detector.detect(video);
+                    const subject = findSubject(poses);
+                    let paperCoverage: number | undefined;
+                    if (subject && needsPaperCoverage(method, reference)) {
+                        const scale = Math.min(1, PAPER_SAMPLE_SIZE / Math.max(video.videoWidth, video.videoHeight));
+                        canvas.width = Math.max(1, Math.round(video.videoWidth * scale));
+                        canvas.height = Math.max(1, Math.round(video.videoHeight * scale));
+                        const context = canvas.getContext('2d', { willReadFrequently: true });
+                        if (context) {
+                            context.drawImage(video, 0, 0, canvas.width, canvas.height);
+                            paperCoverage = paperCoverageNearFeet(context.getImageData(0, 0, canvas.width, canvas.height), subject);
+                        }
+                    }
+                    const checks = evaluateFraming({
+                        poses,
+                        aspectRatio: video.videoWidth / video.videoHeight,
+                        method,
+                        reference,
+                        view,
+                        paperCoverage,
+                        tilt: tiltRef.current,
+                    });
+                    setGuidance({ status: 'ready', subject, checks, frameSize: { width: video.videoWidth, height: video.videoHeight } });
+                } catch (err) {
+                    console.warn('Pose detection failed, framing guidance is off:', err);
+                    clearInterval(interval);
+                    setGuidance({ status: 'unavailable', checks: [] });
+                }
+            }, DETECT_INTERVAL_MS);
+        });
+
+        return () => {
+            cancelled = true;
+            clearInterval(interval);
+            // Checks from the last session would be stale by the time the preview shows again.
+            setGuidance(previous => previous.status === 'unavailable' ? previous : { status: 'loading', checks: [] });
+        };
+    }, [active, method, reference, view]);
+
+    return guidance;
+}
+
+interface FramingOverlayProps {
+    guidance: FramingGuidance;
+    /** Matches the preview, which is mirrored for front cameras. */
+    mirrored: boolean;
+}
+
+/** Draws the detected skeleton over the preview with a checklist, or the plain silhouette until someone is detected. */
+export const FramingOverlay: React.FC<FramingOverlayProps> = ({ guidance, mirrored }) => {
+    const { status, subject, checks, frameSize } = guidance;
+    const passed = isFramingOk(guidance);
+
+    return (
+        <>
+            {(status !== 'ready' || !subject || !frameSize) ? (
+                <div className="absolute inset-0 flex items-center justify-center pointer-events-none p-4">
+                    <UserIcon className="w-full h-full text-white/10" />
+                </div>
+            ) : (
+                // `slice` crops the same way the video's object-cover does, so the skeleton lines up with the body.
+                <svg
+                    className="absolute inset-0 w-full h-full pointer-events-none"
+                    viewBox={`0 0 ${frameSize.width} ${frameSize.height}`}
+                    preserveAspectRatio="xMidYMid slice"
+                    style={{ transform: mirrored ? 'scaleX(-1)' : undefined }}
+                >
+                    <g className={passed ? 'text-green-400' : 'text-amber-400'} stroke="currentColor" strokeWidth={Math.max(frameSize.width, frameSize.height) / 200} strokeLinecap="round">
+                        {SKELETON.filter(([a, b]) => subject[a]?.visibility >= 0.5 && subject[b]?.visibility >= 0.5).map(([a, b]) => (
+                            <line
+                                key={`${a}-${b}`}
+                                x1={subject[a].x * frameSize.width}
+                                y1={subject[a].y * frameSize.height}
+                                x2={subject[b].x * frameSize.width}
+                                y2={subject[b].y * frameSize.height}
+                            />
+                        ))}
+                    </g>
+                </svg>
+            )}
+            {status === 'ready' && checks.length > 0 && (
+                <ul className="absolute top-3 left-3 right-3 flex flex-wrap gap-1 pointer-events-none">
+                    {checks.map(check => (
+                        <li
+                            key={check.id}
+                            title={check.hint}
+                            className={`px-2 py-0.5 rounded-full text-xs font-semibold ${check.passed ? 'bg-green-600/80 text-white' : 'bg-gray-900/80 text-amber-300'}`}
+                        >
+                            {check.passed ? '✓' : '✗'} {check.label}
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </>
+    );
+};
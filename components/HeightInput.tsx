@@ -0,0 +1,87 @@
+import React, { useState } from 'react';
+import type { UnitSystem } from '../types';
+import { ArrowLeftIcon } from './icons';
+import { MAX_HEIGHT_CM, MIN_HEIGHT_CM, cmToFeetInches, feetInchesToCm } from '../utils/units';
+
+interface HeightInputProps {
+    initialHeightCm: number | null;
+    /** Picks the unit the form starts in. */
+    units: UnitSystem;
+    onSubmit: (heightCm: number) => void;
+    onBack: () => void;
+}
+
+type HeightUnit = 'cm' | 'ftin';
+
+const inputClassName = "w-24 bg-gray-900 text-white text-2xl font-bold text-center rounded-lg px-3 py-2 border border-gray-600 focus:outline-none focus:border-cyan-500";
+
+export const HeightInput: React.FC<HeightInputProps> = ({ initialHeightCm, units, onSubmit, onBack }) => {
+    const [unit, setUnit] = useState<HeightUnit>(units === 'imperial' ? 'ftin' : 'cm');
+    const [cm, setCm] = useState(initialHeightCm ? initialHeightCm.toFixed(0) : '');
+    const initialFeetInches = initialHeightCm ? cmToFeetInches(initialHeightCm) : null;
+    const [feet, setFeet] = useState(initialFeetInches?.feet.toString() ?? '');
+    const [inches, setInches] = useState(initialFeetInches?.inches.toString() ?? '');
+
+    const heightCm = unit === 'cm'
+        ? parseFloat(cm)
+        : feetInchesToCm(parseFloat(feet) || 0, parseFloat(inches) || 0);
+    const isValid = Number.isFinite(heightCm) && heightCm >= MIN_HEIGHT_CM && heightCm <= MAX_HEIGHT_CM;
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (isValid) {
+            onSubmit(Math.round(heightCm * 10) / 10);
+        }
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className="w-full p-4 flex flex-col items-center justify-center gap-6 animate-fade-in text-center">
+            <button type="button" onClick={onBack} className="absolute top-6 left-6 text-gray-400 hover:text-white transition-colors">
+                <ArrowLeftIcon />
+            </button>
+            <div>
+                <h2 className="text-2xl font-bold text-white mb-2">Enter Your Height</h2>
+                <p className="text-gray-400 max-w-xs">Your height is used as an exact fact, so the AI only has to estimate your weight.</p>
+            </div>
+
+            <div className="flex bg-gray-900 rounded-full p-1">
+                {(['cm', 'ftin'] as HeightUnit[]).map(option => (
+                    <button
+                        key={option}
+                        type="button"
+                        onClick={() => setUnit(option)}
+                        className={`px-4 py-1 rounded-full text-sm font-semibold transition-colors ${unit === option ? 'bg-cyan-600 text-white' : 'text-gray-400 hover:text-white'}`}
+                    >
+                        {option === 'cm' ? 'cm' : 'ft / in'}
+                    </button>
+                ))}
+            </div>
+
+            {unit === 'cm' ? (
+                <label className="flex items-center gap-2 text-gray-400">
+                    <input type="number" inputMode="decimal" value={cm} onChange={(e) => setCm(e.target.value)} className={inputClassName} autoFocus />
+                    cm
+                </label>
+            ) : (
+                <div className="flex items-center gap-4 text-gray-400">
+                    <label className="flex items-center gap-2">
+                        <input type="number" inputMode="numeric" value={feet} onChange={(e) => setFeet(e.target.value)} className={inputClassName} autoFocus />
+                        ft
+                    </label>
+                    <label className="flex items-center gap-2">
+                        <input type="number" inputMode="decimal" value={inches} onChange={(e) => setInches(e.target.value)} className={inputClassName} />
+                        in
+                    </label>
+                </div>
+            )}
+
+            <button
+                type="submit"
+                disabled={!isValid}
+                className="w-full sm:max-w-xs bg-cyan-600 text-white font-bold py-3 px-6 rounded-lg hover:bg-cyan-500 transition-colors disabled:bg-gray-500 disabled:cursor-not-allowed"
+            >
+                Continue
+            </button>
+        </form>
+    );
+};
@@ -0,0 +1,232 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { ResponsiveContainer, LineChart, Line, XAxis, YAxis, Tooltip, CartesianGrid, ReferenceArea } from 'recharts';
+import type { BmiSchemeId, HistoryEntry, UnitSystem } from '../types';
+import { listHistory, updateHistoryEntry, deleteHistoryEntry } from '../services/historyStore';
+import { getBmiScheme } from '../utils/bmi';
+import { cmToFeetInches, cmToInches, feetInchesToCm, formatHeight, formatWeight, kgToLbs, lbsToKg } from '../utils/units';
+import { ArrowLeftIcon, PencilIcon, TrashIcon, SpinnerIcon } from './icons';
+
+interface HistoryViewProps {
+    onBack: () => void;
+    /** Classification whose bands are shaded behind the BMI chart. */
+    bmiScheme: BmiSchemeId;
+    /** Whose measurements to show; missing for the guest measurements. */
+    profileId?: string;
+    profileName?: string;
+    units: UnitSystem;
+}
+
+type ChartMetric = 'heightCm' | 'weightKg' | 'bmi';
+
+const metricOptions: { key: ChartMetric; label: string; unit: Record<UnitSystem, string> }[] = [
+    { key: 'heightCm', label: 'Height', unit: { metric: 'cm', imperial: 'in' } },
+    { key: 'weightKg', label: 'Weight', unit: { metric: 'kg', imperial: 'lbs' } },
+    { key: 'bmi', label: 'BMI', unit: { metric: '', imperial: '' } },
+];
+
+// The chart plots imperial heights in inches, since feet and inches don't make a numeric axis.
+const toChartValue = (entry: HistoryEntry, metric: ChartMetric, units: UnitSystem): number => {
+    if (metric === 'bmi' || units === 'metric') return entry[metric];
+    return metric === 'heightCm' ? cmToInches(entry.heightCm) : kgToLbs(entry.weightKg);
+};
+
+const methodLabels: Record<HistoryEntry['method'], string> = {
+    paper: 'Reference',
+    pose: 'Guided Pose',
+    environment: 'Quick Snap',
+};
+
+// Keep the BMI chart readable by never zooming further out than the outer bands need.
+const BMI_CHART_MIN = 15;
+const BMI_CHART_MAX = 40;
+
+const formatDate = (timestamp: number) => new Date(timestamp).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+const inputClassName = "ml-1 w-20 bg-gray-700 text-white rounded px-2 py-1";
+
+const EditRow: React.FC<{ entry: HistoryEntry; units: UnitSystem; onSave: (entry: HistoryEntry) => void; onCancel: () => void }> = ({ entry, units, onSave, onCancel }) => {
+    const initialFeetInches = cmToFeetInches(entry.heightCm);
+    const [height, setHeight] = useState(entry.heightCm.toFixed(1));
+    const [feet, setFeet] = useState(String(initialFeetInches.feet));
+    const [inches, setInches] = useState(String(initialFeetInches.inches));
+    const [weight, setWeight] = useState((units === 'metric' ? entry.weightKg : kgToLbs(entry.weightKg)).toFixed(1));
+    // Untouched fields keep the stored value, so opening and saving doesn't round it to the displayed precision.
+    const [heightTouched, setHeightTouched] = useState(false);
+    const [weightTouched, setWeightTouched] = useState(false);
+
+    const enteredHeightCm = units === 'metric' ? parseFloat(height) : feetInchesToCm(parseFloat(feet), parseFloat(inches) || 0);
+    const enteredWeightKg = units === 'metric' ? parseFloat(weight) : lbsToKg(parseFloat(weight));
+    const heightCm = heightTouched ? enteredHeightCm : entry.heightCm;
+    const weightKg = weightTouched ? enteredWeightKg : entry.weightKg;
+    const isValid = heightCm > 0 && weightKg > 0;
+
+    const editHeight = (setter: (value: string) => void) => (e: React.ChangeEvent<HTMLInputElement>) => {
+        setter(e.target.value);
+        setHeightTouched(true);
+    };
+
+    return (
+        <div className="flex flex-wrap items-center gap-2">
+            {units === 'metric' ? (
+                <label className="text-xs text-gray-400">cm
+                    <input type="number" value={height} onChange={editHeight(setHeight)} className={inputClassName} />
+                </label>
+            ) : (
+                <>
+                    <label className="text-xs text-gray-400">ft
+                        <input type="number" value={feet} onChange={editHeight(setFeet)} className={inputClassName} />
+                    </label>
+                    <label className="text-xs text-gray-400">in
+                        <input type="number" value={inches} onChange={editHeight(setInches)} className={inputClassName} />
+                    </label>
+                </>
+            )}
+            <label className="text-xs text-gray-400">{units === 'metric' ? 'kg' : 'lbs'}
+                <input type="number" value={weight} onChange={(e) => { setWeight(e.target.value); setWeightTouched(true); }} className={inputClassName} />
+            </label>
+            <button onClick={() => onSave({ ...entry, heightCm, weightKg })} disabled={!isValid} className="text-sm bg-cyan-600 text-white font-semibold px-3 py-1 rounded hover:bg-cyan-500 disabled:bg-gray-500">Save</button>
+            <button onClick={onCancel} className="text-sm text-gray-400 hover:text-white">Cancel</button>
+        </div>
+    );
+};
+
+export const HistoryView: React.FC<HistoryViewProps> = ({ onBack, bmiScheme, profileId, profileName, units }) => {
+    const [entries, setEntries] = useState<HistoryEntry[] | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [metric, setMetric] = useState<ChartMetric>('weightKg');
+    const [editingId, setEditingId] = useState<string | null>(null);
+
+    const refresh = useCallback(async () => {
+        try {
+            setEntries(await listHistory(profileId));
+        } catch (err) {
+            console.error('Failed to load history:', err);
+            setError('Could not load your measurement history.');
+            setEntries([]);
+        }
+    }, [profileId]);
+
+    useEffect(() => {
+        refresh();
+    }, [refresh]);
+
+    const handleSave = async (entry: HistoryEntry) => {
+        try {
+            await updateHistoryEntry(entry);
+            setEditingId(null);
+            await refresh();
+        } catch (err) {
+            console.error('Failed to update entry:', err);
+            setError('Could not save your changes.');
+        }
+    };
+
+    const handleDelete = async (id: string) => {
+        if (!window.confirm('Delete this measurement?')) return;
+        try {
+            await deleteHistoryEntry(id);
+            await refresh();
+        } catch (err) {
+            console.error('Failed to delete entry:', err);
+            setError('Could not delete the measurement.');
+        }
+    };
+
+    const currentMetric = metricOptions.find(m => m.key === metric)!;
+    const unit = currentMetric.unit[units];
+    const chartData = (entries ?? []).map(e => ({ date: formatDate(e.timestamp), value: toChartValue(e, metric, units) }));
+
+    return (
+        <div className="w-full p-4 flex flex-col gap-4 items-center animate-fade-in">
+            <button onClick={onBack} className="absolute top-6 left-6 text-gray-400 hover:text-white transition-colors">
+                <ArrowLeftIcon />
+            </button>
+            <h2 className="text-2xl font-bold text-white">{profileName ? `${profileName}'s History` : 'Guest History'}</h2>
+
+            {error && <p className="text-red-400 text-sm">{error}</p>}
+
+            {entries === null ? (
+                <SpinnerIcon />
+            ) : entries.length === 0 ? (
+                <p className="text-gray-400 text-center">No measurements yet. Completed analyses are saved here automatically.</p>
+            ) : (
+                <>
+                    <div className="flex gap-2">
+                        {metricOptions.map(option => (
+                            <button
+                                key={option.key}
+                                onClick={() => setMetric(option.key)}
+                                className={`px-3 py-1 rounded-full text-sm font-semibold transition-colors ${metric === option.key ? 'bg-cyan-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+                            >
+                                {option.label}
+                            </button>
+                        ))}
+                    </div>
+
+                    <div className="w-full h-64 bg-gray-900 rounded-lg p-2">
+                        <ResponsiveContainer width="100%" height="100%">
+                            <LineChart data={chartData} margin={{ top: 8, right: 16, bottom: 0, left: -16 }}>
+                                <CartesianGrid stroke="#374151" strokeDasharray="3 3" />
+                                <XAxis dataKey="date" stroke="#9ca3af" fontSize={12} />
+                                <YAxis
+                                    stroke="#9ca3af"
+                                    fontSize={12}
+                                    domain={metric === 'bmi' ? [BMI_CHART_MIN, BMI_CHART_MAX] : ['dataMin - 5', 'dataMax + 5']}
+                                    allowDataOverflow={metric === 'bmi'}
+                                    tickFormatter={(value: number) => value.toFixed(0)}
+                                />
+                                {metric === 'bmi' && getBmiScheme(bmiScheme).bands.map(band => (
+                                    <ReferenceArea
+                                        key={band.category}
+                                        y1={Math.max(band.min, BMI_CHART_MIN)}
+                                        y2={Math.min(band.max, BMI_CHART_MAX)}
+                                        fill={band.color}
+                                        fillOpacity={0.15}
+                                        ifOverflow="hidden"
+                                    />
+                                ))}
+                                <Tooltip
+                                    contentStyle={{ backgroundColor: '#1f2937', border: '1px solid #374151' }}
+                                    formatter={(value: number) => [`${value.toFixed(1)} ${unit}`.trim(), currentMetric.label]}
+                                />
+                                <Line type="monotone" dataKey="value" stroke="#22d3ee" strokeWidth={2} dot={{ r: 3 }} />
+                            </LineChart>
+                        </ResponsiveContainer>
+                    </div>
+
+                    <ul className="w-full space-y-2 max-h-72 overflow-y-auto">
+                        {[...entries].reverse().map(entry => (
+                            <li key={entry.id} className="bg-gray-800 rounded-lg p-3 flex items-center gap-3">
+                                {entry.thumbnail && (
+                                    <img src={`data:image/jpeg;base64,${entry.thumbnail}`} alt="" className="w-12 h-12 rounded object-cover shrink-0" />
+                                )}
+                                <div className="flex-1 min-w-0">
+                                    <p className="text-xs text-gray-400">
+                                        {new Date(entry.timestamp).toLocaleString()} · {methodLabels[entry.method]} · {entry.accuracy} accuracy
+                                    </p>
+                                    {editingId === entry.id ? (
+                                        <EditRow entry={entry} units={units} onSave={handleSave} onCancel={() => setEditingId(null)} />
+                                    ) : (
+                                        <p className="text-white">
+                                            {formatHeight(entry.heightCm, units)} · {formatWeight(entry.weightKg, units)} · BMI <span style={{ color: entry.color }}>{entry.bmi.toFixed(1)}</span>
+                                        </p>
+                                    )}
+                                </div>
+                                {editingId !== entry.id && (
+                                    <div className="flex gap-2 shrink-0">
+                                        <button onClick={() => setEditingId(entry.id)} className="text-gray-400 hover:text-white" title="Edit">
+                                            <PencilIcon />
+                                        </button>
+                                        <button onClick={() => handleDelete(entry.id)} className="text-gray-400 hover:text-red-400" title="Delete">
+                                            <TrashIcon />
+                                        </button>
+                                    </div>
+                                )}
+                            </li>
+                        ))}
+                    </ul>
+                </>
+            )}
+        </div>
+    );
+};
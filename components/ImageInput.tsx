@@ -1,48 +1,56 @@
 import React, { useState, useCallback, useRef, useEffect } from 'react';
+import type { CaptureView, CapturedImage } from '../types';
 import { UploadIcon, ArrowLeftIcon } from './icons';
+import { ViewProgress, viewLabels, MULTI_VIEW_SEQUENCE, REQUIRED_MULTI_VIEWS } from './ViewProgress';
+import { QualityWarnings } from './QualityWarnings';
+import { assessImageQuality } from '../utils/imageQuality';
+import { preprocessImage } from '../utils/imagePreprocess';
 
 interface ImageInputProps {
-    onAnalyze: (base64Image: string) => void;
+    onAnalyze: (images: CapturedImage[]) => void;
     onBack: () => void;
+    multiView: boolean;
+    /** Images to start with, e.g. after a cancelled analysis. */
+    initialImages?: CapturedImage[];
 }
 
-const fileToDataUri = (file: File): Promise<string> => {
-    return new Promise((resolve, reject) => {
-        const reader = new FileReader();
-        reader.onload = (event) => {
-            if (event.target?.result) {
-                resolve(event.target.result as string);
-            } else {
-                reject(new Error("Couldn't read file"));
-            }
-        };
-        reader.onerror = reject;
-        reader.readAsDataURL(file);
-    });
-};
-
-export const ImageInput: React.FC<ImageInputProps> = ({ onAnalyze, onBack }) => {
-    const [image, setImage] = useState<string | null>(null);
+export const ImageInput: React.FC<ImageInputProps> = ({ onAnalyze, onBack, multiView, initialImages = [] }) => {
+    const [views, setViews] = useState<CaptureView[]>(() => initialImages.length > 0
+        ? initialImages.map(image => image.view)
+        : multiView ? MULTI_VIEW_SEQUENCE.slice(0, REQUIRED_MULTI_VIEWS) : ['front']);
+    const [images, setImages] = useState<CapturedImage[]>(initialImages);
     const [isDragging, setIsDragging] = useState(false);
     const [error, setError] = useState<string | null>(null);
     const fileInputRef = useRef<HTMLInputElement>(null);
 
+    const activeView = views.find(view => !images.some(image => image.view === view)) ?? null;
+
+    const removeImage = (view: CaptureView) => {
+        setImages(prev => prev.filter(image => image.view !== view));
+    };
+
     const handleFileSelect = useCallback(async (file: File | null) => {
         setError(null);
-        if (file) {
-            if (!file.type.startsWith('image/')) {
+        if (file && activeView) {
+            // Some platforms report HEIC files with an empty type, so only reject explicit non-images here;
+            // preprocessImage sniffs the real format from the file's bytes.
+            if (file.type && !file.type.startsWith('image/')) {
                 setError('Please select an image file.');
                 return;
             }
             try {
-                const dataUri = await fileToDataUri(file);
-                const base64 = dataUri.split(',')[1];
-                setImage(base64);
+                const { base64Image, mimeType } = await preprocessImage(file);
+                // The quality check is advisory; if it fails, let the model try anyway.
+                const quality = await assessImageQuality(base64Image, mimeType).catch(err => {
+                    console.warn('Image quality check failed:', err);
+                    return undefined;
+                });
+                setImages(prev => [...prev.filter(image => image.view !== activeView), { view: activeView, base64Image, mimeType, quality }]);
             } catch (err) {
-                setError('Failed to read the image file.');
+                setError(err instanceof Error ? err.message : 'Failed to read the image file.');
             }
         }
-    }, []);
+    }, [activeView]);
 
     const handlePaste = useCallback((event: ClipboardEvent) => {
         const items = event.clipboardData?.items;
@@ -79,28 +87,68 @@ export const ImageInput: React.FC<ImageInputProps> = ({ onAnalyze, onBack }) =>
     };
     
     const handleAnalyzeClick = () => {
-        if (image) {
-            onAnalyze(image);
+        if (!activeView && images.length > 0) {
+            // Keep the order of the view sequence regardless of the order the files were added in.
+            onAnalyze(views.map(view => images.find(image => image.view === view)!));
         }
     };
 
+    const hasQualityIssues = images.some(image => image.quality && image.quality.issues.length > 0);
+    const analyzeLabel = hasQualityIssues ? 'Analyze Anyway' : 'Analyze';
+
+    const nextOptionalView = multiView ? MULTI_VIEW_SEQUENCE.find(view => !views.includes(view)) : undefined;
+
+    const title = !multiView
+        ? 'Upload an Image'
+        : activeView ? `Upload the ${viewLabels[activeView]} View` : 'Review Your Photos';
+
     return (
         <div className="w-full p-4 flex flex-col gap-6 items-center animate-fade-in">
             <button onClick={onBack} className="absolute top-6 left-6 text-gray-400 hover:text-white transition-colors">
                 <ArrowLeftIcon />
             </button>
-            <h2 className="text-2xl font-bold text-white">Upload an Image</h2>
+            <h2 className="text-2xl font-bold text-white">{title}</h2>
+            {multiView && <ViewProgress views={views} captured={images} activeView={activeView} />}
             <p className="text-gray-400 text-center text-sm">Drag & drop, paste an image, or click to select a file.</p>
 
-            {image ? (
+            {!activeView && !multiView ? (
                 <div className="w-full max-w-sm flex flex-col items-center gap-4">
-                    <img src={`data:image/jpeg;base64,${image}`} alt="Preview" className="rounded-lg max-h-96 w-auto" />
+                    <img src={`data:${images[0].mimeType};base64,${images[0].base64Image}`} alt="Preview" className="rounded-lg max-h-96 w-auto" />
+                    <QualityWarnings quality={images[0].quality} />
                     <div className="flex gap-2 w-full">
-                        <button onClick={() => setImage(null)} className="flex-1 bg-gray-600 text-white font-bold py-3 px-6 rounded-lg hover:bg-gray-500 transition-colors">
+                        <button onClick={() => removeImage('front')} className="flex-1 bg-gray-600 text-white font-bold py-3 px-6 rounded-lg hover:bg-gray-500 transition-colors">
                             Change
                         </button>
                         <button onClick={handleAnalyzeClick} className="flex-1 bg-cyan-600 text-white font-bold py-3 px-6 rounded-lg hover:bg-cyan-500 transition-colors">
-                            Analyze
+                            {analyzeLabel}
+                        </button>
+                    </div>
+                </div>
+            ) : !activeView ? (
+                <div className="w-full max-w-sm flex flex-col items-center gap-4">
+                    <div className="grid grid-cols-2 gap-2 w-full">
+                        {views.map(view => {
+                            const image = images.find(i => i.view === view)!;
+                            return (
+                                <div key={view} className="relative">
+                                    <img src={`data:${image.mimeType};base64,${image.base64Image}`} alt={`${viewLabels[view]} view`} className="rounded-lg h-48 w-full object-cover" />
+                                    <span className="absolute top-1 left-1 bg-gray-900/80 text-xs text-white px-2 py-0.5 rounded">{viewLabels[view]}</span>
+                                    <button onClick={() => removeImage(view)} className="absolute bottom-1 right-1 bg-gray-900/80 text-xs text-white px-2 py-0.5 rounded hover:bg-gray-700">Change</button>
+                                </div>
+                            );
+                        })}
+                    </div>
+                    {views.map(view => (
+                        <QualityWarnings key={view} quality={images.find(i => i.view === view)?.quality} label={viewLabels[view]} />
+                    ))}
+                    <div className="flex gap-2 w-full">
+                        {nextOptionalView && (
+                            <button onClick={() => setViews(prev => [...prev, nextOptionalView])} className="flex-1 bg-gray-600 text-white font-bold py-3 px-6 rounded-lg hover:bg-gray-500 transition-colors">
+                                Add {viewLabels[nextOptionalView]} View
+                            </button>
+                        )}
+                        <button onClick={handleAnalyzeClick} className="flex-1 bg-cyan-600 text-white font-bold py-3 px-6 rounded-lg hover:bg-cyan-500 transition-colors">
+                            {analyzeLabel}
                         </button>
                     </div>
                 </div>
@@ -115,7 +163,7 @@ export const ImageInput: React.FC<ImageInputProps> = ({ onAnalyze, onBack }) =>
                 >
                     <UploadIcon className="w-12 h-12 text-gray-500 mb-2" />
                     <p className="text-gray-400">Click to upload or drag & drop</p>
-                    <input type="file" accept="image/*" ref={fileInputRef} onChange={(e) => handleFileSelect(e.target.files?.[0] ?? null)} className="hidden" />
+                    <input type="file" accept="image/*,.heic,.heif" ref={fileInputRef} onChange={(e) => handleFileSelect(e.target.files?.[0] ?? null)} className="hidden" />
                 </div>
             )}
              {error && <p className="text-red-400 text-sm mt-2">{error}</p>}
@@ -1,26 +1,21 @@
 import React from 'react';
+import type { ReferenceObject, ReferenceObjectId } from '../types';
+import { DEFAULT_REFERENCE_OBJECT, formatReferenceSize, getReferenceObjectInfo } from '../utils/referenceObjects';
 import { ArrowLeftIcon, CheckIcon, PaperInstructionIcon, PoseInstructionIcon, QuickSnapInstructionIcon } from './icons';
 
 type Method = 'paper' | 'pose' | 'environment';
 
 interface InstructionsDisplayProps {
     method: Method;
+    /** The object picked for the paper method; defaults to A4 paper. */
+    reference?: ReferenceObject;
+    multiView: boolean;
+    onMultiViewChange: (multiView: boolean) => void;
     onBack: () => void;
     onContinue: () => void;
 }
 
 const instructionData = {
-    paper: {
-        title: "How to Use a Reference Paper",
-        Icon: PaperInstructionIcon,
-        points: [
-            "Use a standard A4 or US Letter paper.",
-            "Place the paper flat on the floor by your feet.",
-            "Ensure the entire paper is visible in the photo.",
-            "Capture your full body, from head to toe.",
-            "Take the photo in a well-lit area."
-        ]
-    },
     pose: {
         title: "How to Do the Guided Pose",
         Icon: PoseInstructionIcon,
@@ -45,6 +40,83 @@ const instructionData = {
     }
 };
 
+// Where to put each reference object so the model can read its size.
+const referenceInstructionData: Record<ReferenceObjectId, { title: string; points: string[] }> = {
+    a4_paper: {
+        title: "How to Use A4 Paper",
+        points: [
+            "Place the sheet flat on the floor by your feet.",
+            "Ensure the entire sheet is visible in the photo, with all four corners.",
+            "Capture your full body, from head to toe.",
+            "Take the photo in a well-lit area."
+        ]
+    },
+    us_letter: {
+        title: "How to Use Letter Paper",
+        points: [
+            "Place the sheet flat on the floor by your feet.",
+            "Ensure the entire sheet is visible in the photo, with all four corners.",
+            "Capture your full body, from head to toe.",
+            "Take the photo in a well-lit area."
+        ]
+    },
+    id1_card: {
+        title: "How to Use a Card",
+        points: [
+            "Hold a bank card or ID card flat against your chest, long side horizontal, facing the camera.",
+            "Keep your fingers off the edges so all four corners are visible.",
+            "Use the highest camera resolution; the card is small in a full-body photo.",
+            "Capture your full body, from head to toe, in a well-lit area."
+        ]
+    },
+    interior_door: {
+        title: "How to Use a Door",
+        points: [
+            "Stand right next to a closed interior door, your heels in line with the door frame.",
+            "Make sure the whole door, from floor to top edge, is in the photo.",
+            "Hold the camera level at about waist height, without tilting it up or down.",
+            "Only standard doors of about 203 cm (80 in) work; skip double-height or garage doors."
+        ]
+    },
+    floor_tile: {
+        title: "How to Use Floor Tiles",
+        points: [
+            "Stand on the tiled floor whose tile size you entered.",
+            "Make sure several whole tiles around your feet are visible, with clear grout lines.",
+            "Capture your full body, from head to toe.",
+            "Hold the camera level and avoid shooting steeply down at the floor."
+        ]
+    },
+    companion: {
+        title: "How to Measure Next to Someone",
+        points: [
+            "Ask the person whose height you entered to stand next to you, on the left of the photo.",
+            "Stand side by side at the same distance from the camera, both upright.",
+            "Both wear shoes or both go barefoot, matching how their height was measured.",
+            "Capture both of you from head to toe, in a well-lit area."
+        ]
+    },
+};
+
+// Step-by-step guide for multi-view capture. The front view follows the method's own tips above.
+const viewGuideData: Record<Method, { view: string; steps: string[] }[]> = {
+    paper: [
+        { view: "Front", steps: ["Face the camera with the reference object placed as described above.", "Arms relaxed, slightly away from your body."] },
+        { view: "Side", steps: ["Turn 90° without moving your feet off the spot.", "Keep the reference object visible.", "Let your arms hang naturally so your profile is clear."] },
+        { view: "Back (optional)", steps: ["Turn to face away from the camera.", "Keep the reference object in the same place."] },
+    ],
+    pose: [
+        { view: "Front", steps: ["Face the camera in the 'T' pose described above."] },
+        { view: "Side", steps: ["Turn 90° and lower your arms to your sides.", "Stand tall and keep the same distance from the camera."] },
+        { view: "Back (optional)", steps: ["Turn to face away from the camera.", "Arms relaxed at your sides."] },
+    ],
+    environment: [
+        { view: "Front", steps: ["Face the camera with your arms relaxed, slightly away from your body."] },
+        { view: "Side", steps: ["Turn 90° so your profile faces the camera.", "Stand tall and keep the same distance from the camera.", "Avoid loose clothing that hides your shape."] },
+        { view: "Back (optional)", steps: ["Turn to face away from the camera."] },
+    ],
+};
+
 const InstructionItem: React.FC<{ text: string }> = ({ text }) => (
     <li className="flex items-start gap-3">
         <CheckIcon className="w-5 h-5 text-cyan-400 mt-0.5 shrink-0" />
@@ -52,8 +124,11 @@ const InstructionItem: React.FC<{ text: string }> = ({ text }) => (
     </li>
 );
 
-export const InstructionsDisplay: React.FC<InstructionsDisplayProps> = ({ method, onBack, onContinue }) => {
-    const { title, Icon, points } = instructionData[method];
+export const InstructionsDisplay: React.FC<InstructionsDisplayProps> = ({ method, reference, multiView, onMultiViewChange, onBack, onContinue }) => {
+    const activeReference = method === 'paper' ? reference ?? DEFAULT_REFERENCE_OBJECT : undefined;
+    const { title, points, Icon } = activeReference
+        ? { ...referenceInstructionData[activeReference.id], Icon: PaperInstructionIcon }
+        : instructionData[method as Exclude<Method, 'paper'>];
 
     return (
         <div className="w-full p-4 flex flex-col items-center animate-fade-in text-center">
@@ -65,6 +140,12 @@ export const InstructionsDisplay: React.FC<InstructionsDisplayProps> = ({ method
             
             <Icon className="w-28 h-28 text-gray-500 my-4" />
 
+            {activeReference && (
+                <p className="text-sm text-gray-400 mb-3">
+                    Scale: {getReferenceObjectInfo(activeReference.id).label}, {formatReferenceSize(activeReference)}
+                </p>
+            )}
+
             <div className="text-left max-w-md w-full bg-gray-900/50 p-4 rounded-lg">
                 <ul className="space-y-2 text-gray-300">
                     {points.map((point, index) => (
@@ -72,6 +153,28 @@ export const InstructionsDisplay: React.FC<InstructionsDisplayProps> = ({ method
                     ))}
                 </ul>
             </div>
+
+            <label className="flex items-center gap-3 mt-4 max-w-md w-full text-left cursor-pointer">
+                <input type="checkbox" checked={multiView} onChange={(e) => onMultiViewChange(e.target.checked)} className="w-5 h-5 accent-cyan-500" />
+                <span className="text-gray-300 text-sm">
+                    <strong className="text-white">Multi-view:</strong> also take a side photo for a more accurate weight estimate.
+                </span>
+            </label>
+
+            {multiView && (
+                <ol className="text-left max-w-md w-full bg-gray-900/50 p-4 rounded-lg mt-3 space-y-3">
+                    {viewGuideData[method].map((guide, index) => (
+                        <li key={guide.view}>
+                            <p className="font-semibold text-cyan-300">{index + 1}. {guide.view} view</p>
+                            <ul className="mt-1 space-y-1 text-gray-300 text-sm">
+                                {guide.steps.map((step, stepIndex) => (
+                                    <InstructionItem key={stepIndex} text={step} />
+                                ))}
+                            </ul>
+                        </li>
+                    ))}
+                </ol>
+            )}
             
             <button
                 onClick={onContinue}
@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+import type { ActivityLevel, PersonalDetails, Sex, WeightGoal } from '../types';
+
+interface PersonalDetailsInputProps {
+    details: PersonalDetails;
+    onChange: (details: PersonalDetails) => void;
+}
+
+// The app is for adults only; the formulas aren't validated outside this range.
+const MIN_AGE = 18;
+const MAX_AGE = 100;
+
+const sexLabels: Record<Sex, string> = {
+    male: 'Male',
+    female: 'Female',
+};
+
+const activityLabels: Record<ActivityLevel, string> = {
+    sedentary: 'Mostly sitting',
+    light: 'Lightly active',
+    active: 'Active',
+    very_active: 'Very active',
+};
+
+const goalLabels: Record<WeightGoal, string> = {
+    lose: 'Lose weight',
+    maintain: 'Maintain weight',
+    gain: 'Gain weight',
+};
+
+const selectClassName = "bg-gray-900 text-white rounded-lg px-2 py-1 border border-gray-600 focus:outline-none focus:border-cyan-500";
+
+export const PersonalDetailsInput: React.FC<PersonalDetailsInputProps> = ({ details, onChange }) => {
+    const [ageText, setAgeText] = useState(details.age?.toString() ?? '');
+
+    const parseAge = (value: string) => {
+        const age = parseInt(value, 10);
+        return Number.isFinite(age) && age >= MIN_AGE && age <= MAX_AGE ? age : undefined;
+    };
+
+    // Only valid ages are passed on while typing: profiles save every change, and a half-typed
+    // or briefly empty field must not overwrite the stored birth year.
+    const handleAgeChange = (value: string) => {
+        setAgeText(value);
+        const age = parseAge(value);
+        if (age !== undefined && age !== details.age) {
+            onChange({ ...details, age });
+        }
+    };
+
+    // Leaving the field empty clears the age; leaving it invalid restores the last valid one.
+    const handleAgeBlur = () => {
+        if (!ageText.trim()) {
+            if (details.age !== undefined) onChange({ ...details, age: undefined });
+        } else if (parseAge(ageText) === undefined) {
+            setAgeText(details.age?.toString() ?? '');
+        }
+    };
+
+    // Clicking the selected option again clears it, since both details are optional.
+    const handleSexChange = (sex: Sex) => {
+        onChange({ ...details, sex: details.sex === sex ? undefined : sex });
+    };
+
+    return (
+        <div className="flex flex-wrap items-center justify-center gap-4 text-sm text-gray-400">
+            <label className="flex items-center gap-2">
+                Age
+                <input
+                    type="number"
+                    inputMode="numeric"
+                    min={MIN_AGE}
+                    max={MAX_AGE}
+                    value={ageText}
+                    onChange={(e) => handleAgeChange(e.target.value)}
+                    onBlur={handleAgeBlur}
+                    className="w-16 bg-gray-900 text-white text-center rounded-lg px-2 py-1 border border-gray-600 focus:outline-none focus:border-cyan-500"
+                />
+            </label>
+            <div className="flex bg-gray-900 rounded-full p-1">
+                {(Object.keys(sexLabels) as Sex[]).map(sex => (
+                    <button
+                        key={sex}
+                        type="button"
+                        onClick={() => handleSexChange(sex)}
+                        className={`px-4 py-1 rounded-full font-semibold transition-colors ${details.sex === sex ? 'bg-cyan-600 text-white' : 'text-gray-400 hover:text-white'}`}
+                    >
+                        {sexLabels[sex]}
+                    </button>
+                ))}
+            </div>
+            <select
+                value={details.activity ?? ''}
+                onChange={(e) => onChange({ ...details, activity: (e.target.value || undefined) as ActivityLevel | undefined })}
+                aria-label="Activity level"
+                className={selectClassName}
+            >
+                <option value="">Activity level</option>
+                {(Object.keys(activityLabels) as ActivityLevel[]).map(activity => (
+                    <option key={activity} value={activity}>{activityLabels[activity]}</option>
+                ))}
+            </select>
+            <select
+                value={details.goal ?? ''}
+                onChange={(e) => onChange({ ...details, goal: (e.target.value || undefined) as WeightGoal | undefined })}
+                aria-label="Goal"
+                className={selectClassName}
+            >
+                <option value="">Goal</option>
+                {(Object.keys(goalLabels) as WeightGoal[]).map(goal => (
+                    <option key={goal} value={goal}>{goalLabels[goal]}</option>
+                ))}
+            </select>
+        </div>
+    );
+};
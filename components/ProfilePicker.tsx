@@ -0,0 +1,211 @@
+import React, { useState } from 'react';
+import type { BmiSchemeId, Profile, Sex, UnitSystem } from '../types';
+import { listHistory } from '../services/historyStore';
+import type { ProfileDraft } from '../services/profileStore';
+import { BMI_SCHEMES } from '../utils/bmi';
+import { downloadBlob, exportFileName, toProfileJson } from '../utils/exportData';
+import { DownloadIcon, PencilIcon, TrashIcon, UserIcon } from './icons';
+
+interface ProfilePickerProps {
+    profiles: Profile[];
+    activeProfileId?: string;
+    /** Preselected scheme for new profiles. */
+    defaultBmiScheme: BmiSchemeId;
+    /** `undefined` continues as a guest, whose measurements aren't tied to anyone. */
+    onSelect: (profileId: string | undefined) => void;
+    /** Creates the profile when `id` is missing, otherwise updates it. */
+    onSave: (draft: ProfileDraft, id?: string) => void;
+    /** Deletes the profile together with its history. */
+    onDelete: (profile: Profile) => Promise<void>;
+}
+
+// Same adult-only range as the age field on the result page.
+const MIN_AGE = 18;
+const MAX_AGE = 100;
+
+const sexLabels: Record<Sex, string> = {
+    male: 'Male',
+    female: 'Female',
+};
+
+const unitLabels: Record<UnitSystem, string> = {
+    metric: 'cm / kg',
+    imperial: 'ft / lbs',
+};
+
+const inputClassName = "bg-gray-900 text-white rounded-lg px-2 py-1 border border-gray-600 focus:outline-none focus:border-cyan-500";
+
+const toggleClassName = (selected: boolean) =>
+    `px-4 py-1 rounded-full font-semibold transition-colors ${selected ? 'bg-cyan-600 text-white' : 'text-gray-400 hover:text-white'}`;
+
+interface ProfileFormProps {
+    profile?: Profile;
+    defaultBmiScheme: BmiSchemeId;
+    onSubmit: (draft: ProfileDraft) => void;
+    onCancel: () => void;
+}
+
+const ProfileForm: React.FC<ProfileFormProps> = ({ profile, defaultBmiScheme, onSubmit, onCancel }) => {
+    const [name, setName] = useState(profile?.name ?? '');
+    const [birthYearText, setBirthYearText] = useState(profile?.birthYear?.toString() ?? '');
+    const [sex, setSex] = useState<Sex | undefined>(profile?.sex);
+    const [units, setUnits] = useState<UnitSystem>(profile?.units ?? 'metric');
+    const [bmiScheme, setBmiScheme] = useState<BmiSchemeId>(profile?.bmiScheme ?? defaultBmiScheme);
+    const [error, setError] = useState<string | null>(null);
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        const currentYear = new Date().getFullYear();
+        const birthYear = birthYearText.trim() ? parseInt(birthYearText, 10) : undefined;
+        if (!name.trim()) {
+            setError('Enter a name.');
+            return;
+        }
+        if (birthYear !== undefined && !(birthYear >= currentYear - MAX_AGE && birthYear <= currentYear - MIN_AGE)) {
+            setError(`Enter a birth year between ${currentYear - MAX_AGE} and ${currentYear - MIN_AGE}, or leave it empty.`);
+            return;
+        }
+        onSubmit({ name: name.trim(), birthYear, sex, units, bmiScheme, activity: profile?.activity, goal: profile?.goal });
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className="w-full flex flex-col gap-3 bg-gray-900/50 p-4 rounded-lg text-sm text-gray-300 text-left animate-fade-in">
+            <label className="flex items-center gap-2">
+                <span className="w-24">Name</span>
+                <input type="text" value={name} onChange={(e) => setName(e.target.value)} maxLength={40} className={`flex-1 ${inputClassName}`} autoFocus />
+            </label>
+            <label className="flex items-center gap-2">
+                <span className="w-24">Birth year</span>
+                <input type="number" inputMode="numeric" value={birthYearText} onChange={(e) => setBirthYearText(e.target.value)} placeholder="Optional" className={`w-28 ${inputClassName}`} />
+            </label>
+            <div className="flex items-center gap-2">
+                <span className="w-24">Sex</span>
+                <div className="flex bg-gray-900 rounded-full p-1">
+                    {(Object.keys(sexLabels) as Sex[]).map(option => (
+                        // Clicking the selected option again clears it, since sex is optional.
+                        <button key={option} type="button" onClick={() => setSex(sex === option ? undefined : option)} className={toggleClassName(sex === option)}>
+                            {sexLabels[option]}
+                        </button>
+                    ))}
+                </div>
+            </div>
+            <div className="flex items-center gap-2">
+                <span className="w-24">Units</span>
+                <div className="flex bg-gray-900 rounded-full p-1">
+                    {(Object.keys(unitLabels) as UnitSystem[]).map(option => (
+                        <button key={option} type="button" onClick={() => setUnits(option)} className={toggleClassName(units === option)}>
+                            {unitLabels[option]}
+                        </button>
+                    ))}
+                </div>
+            </div>
+            <label className="flex items-center gap-2">
+                <span className="w-24">BMI scheme</span>
+                <select value={bmiScheme} onChange={(e) => setBmiScheme(e.target.value as BmiSchemeId)} className={`flex-1 ${inputClassName}`}>
+                    {(Object.keys(BMI_SCHEMES) as BmiSchemeId[]).map(id => (
+                        <option key={id} value={id}>{BMI_SCHEMES[id].name}</option>
+                    ))}
+                </select>
+            </label>
+            {error && <p className="text-red-400">{error}</p>}
+            <div className="flex gap-2">
+                <button type="button" onClick={onCancel} className="flex-1 bg-gray-600 text-white font-bold py-2 px-4 rounded-lg hover:bg-gray-500 transition-colors">Cancel</button>
+                <button type="submit" className="flex-1 bg-cyan-600 text-white font-bold py-2 px-4 rounded-lg hover:bg-cyan-500 transition-colors">{profile ? 'Save' : 'Add Profile'}</button>
+            </div>
+        </form>
+    );
+};
+
+export const ProfilePicker: React.FC<ProfilePickerProps> = ({ profiles, activeProfileId, defaultBmiScheme, onSelect, onSave, onDelete }) => {
+    // 'new' while adding a profile, or the id of the profile being edited.
+    const [editing, setEditing] = useState<string | null>(profiles.length === 0 ? 'new' : null);
+    const [error, setError] = useState<string | null>(null);
+
+    const handleExport = async (profile: Profile) => {
+        setError(null);
+        try {
+            const history = await listHistory(profile.id);
+            downloadBlob(new Blob([toProfileJson(profile, history)], { type: 'application/json' }), exportFileName('profile', 'json'));
+        } catch (err) {
+            console.error('Profile export failed:', err);
+            setError('The profile could not be exported. Please try again.');
+        }
+    };
+
+    const handleDelete = async (profile: Profile) => {
+        if (!window.confirm(`Delete ${profile.name} and all of their measurements? Export the profile first to keep a copy.`)) return;
+        setError(null);
+        try {
+            await onDelete(profile);
+        } catch (err) {
+            console.error('Failed to delete profile:', err);
+            setError('Could not delete the profile.');
+        }
+    };
+
+    const describe = (profile: Profile) => [
+        profile.birthYear ? `Born ${profile.birthYear}` : null,
+        profile.sex ? sexLabels[profile.sex] : null,
+        unitLabels[profile.units],
+        BMI_SCHEMES[profile.bmiScheme].name,
+    ].filter(Boolean).join(' · ');
+
+    return (
+        <div className="w-full p-4 flex flex-col items-center gap-4 animate-fade-in text-center">
+            <h2 className="text-2xl font-bold text-white">Who's being measured?</h2>
+            <p className="text-gray-400 max-w-xs">Each profile keeps its own history, units and suggestions on this device.</p>
+
+            {error && <p className="text-red-400 text-sm">{error}</p>}
+
+            <ul className="w-full flex flex-col gap-2">
+                {profiles.map(profile => editing === profile.id ? (
+                    <li key={profile.id}>
+                        <ProfileForm
+                            profile={profile}
+                            defaultBmiScheme={defaultBmiScheme}
+                            onSubmit={draft => { onSave(draft, profile.id); setEditing(null); }}
+                            onCancel={() => setEditing(null)}
+                        />
+                    </li>
+                ) : (
+                    <li key={profile.id} className={`bg-gray-800 rounded-xl flex items-center gap-3 p-3 border-2 ${profile.id === activeProfileId ? 'border-cyan-500' : 'border-transparent'}`}>
+                        <button onClick={() => onSelect(profile.id)} className="flex-1 min-w-0 flex items-center gap-3 text-left focus:outline-none">
+                            <UserIcon className="w-10 h-10 shrink-0 text-gray-400" />
+                            <span className="min-w-0">
+                                <span className="block text-lg font-semibold text-white truncate">{profile.name}</span>
+                                <span className="block text-xs text-gray-400">{describe(profile)}</span>
+                            </span>
+                        </button>
+                        <div className="flex gap-2 shrink-0">
+                            <button onClick={() => setEditing(profile.id)} className="text-gray-400 hover:text-white" title="Edit">
+                                <PencilIcon />
+                            </button>
+                            <button onClick={() => handleExport(profile)} className="text-gray-400 hover:text-white" title="Export profile and history">
+                                <DownloadIcon />
+                            </button>
+                            <button onClick={() => handleDelete(profile)} className="text-gray-400 hover:text-red-400" title="Delete profile and history">
+                                <TrashIcon />
+                            </button>
+                        </div>
+                    </li>
+                ))}
+            </ul>
+
+            {editing === 'new' ? (
+                <ProfileForm
+                    defaultBmiScheme={defaultBmiScheme}
+                    onSubmit={draft => { onSave(draft); setEditing(null); }}
+                    onCancel={() => setEditing(null)}
+                />
+            ) : (
+                <button onClick={() => setEditing('new')} className="w-full bg-gray-800 rounded-xl p-3 border-2 border-dashed border-gray-600 text-gray-300 font-semibold hover:border-cyan-500 hover:text-white transition-colors">
+                    + Add a profile
+                </button>
+            )}
+
+            <button onClick={() => onSelect(undefined)} className="text-cyan-400 hover:text-cyan-300 font-semibold underline-offset-4 hover:underline transition-colors">
+                Continue as guest
+            </button>
+        </div>
+    );
+};
@@ -0,0 +1,37 @@
+import React from 'react';
+import type { ImageQuality } from '../types';
+import { describeQualityIssue } from '../utils/imageQuality';
+import { InfoIcon, CheckIcon } from './icons';
+
+interface QualityWarningsProps {
+    quality: ImageQuality | undefined;
+    /** Shown before each warning, e.g. the view name in multi-view mode. */
+    label?: string;
+}
+
+export const QualityWarnings: React.FC<QualityWarningsProps> = ({ quality, label }) => {
+    if (!quality) return null;
+
+    if (quality.issues.length === 0) {
+        return (
+            <p className="flex items-center gap-2 text-sm text-green-400">
+                <CheckIcon className="w-4 h-4" />
+                {label ? `${label}: ` : ''}Image quality looks good
+            </p>
+        );
+    }
+
+    return (
+        <div className="w-full bg-amber-900/30 border border-amber-700/60 rounded-lg p-3 text-left">
+            <p className="flex items-center gap-2 text-sm font-semibold text-amber-300 mb-1">
+                <InfoIcon className="w-4 h-4 shrink-0" />
+                {label ? `${label}: ` : ''}Image quality {quality.score}/100
+            </p>
+            <ul className="text-xs text-amber-100/90 space-y-1 list-disc list-inside">
+                {quality.issues.map(issue => (
+                    <li key={issue}>{describeQualityIssue(issue)}</li>
+                ))}
+            </ul>
+        </div>
+    );
+};
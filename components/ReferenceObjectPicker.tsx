@@ -0,0 +1,105 @@
+import React, { useState } from 'react';
+import type { ReferenceObject, ReferenceObjectId } from '../types';
+import { REFERENCE_OBJECTS, createReferenceObject, formatReferenceSize, type ReferenceObjectInfo } from '../utils/referenceObjects';
+import { CardIcon, CompanionIcon, DoorIcon, PaperIcon, TileIcon } from './icons';
+
+interface ReferenceObjectPickerProps {
+    onSelect: (reference: ReferenceObject) => void;
+}
+
+const icons: Record<ReferenceObjectId, React.FC<{ className?: string }>> = {
+    a4_paper: PaperIcon,
+    us_letter: PaperIcon,
+    id1_card: CardIcon,
+    interior_door: DoorIcon,
+    floor_tile: TileIcon,
+    companion: CompanionIcon,
+};
+
+const accuracyLabels: Record<ReferenceObjectInfo['accuracy'], { text: string; className: string }> = {
+    high: { text: 'High accuracy', className: 'text-green-400' },
+    medium: { text: 'Medium accuracy', className: 'text-yellow-400' },
+    low: { text: 'Low accuracy', className: 'text-orange-400' },
+};
+
+const inputClassName = "w-20 bg-gray-900 text-white text-center rounded-lg px-2 py-1 border border-gray-600 focus:outline-none focus:border-cyan-500";
+
+export const ReferenceObjectPicker: React.FC<ReferenceObjectPickerProps> = ({ onSelect }) => {
+    // Objects without a standard size ask for it before continuing.
+    const [pending, setPending] = useState<ReferenceObjectInfo | null>(null);
+    const [heightText, setHeightText] = useState('');
+    const [widthText, setWidthText] = useState('');
+    const [error, setError] = useState<string | null>(null);
+
+    const handlePick = (info: ReferenceObjectInfo) => {
+        setError(null);
+        if (!info.input) {
+            onSelect(createReferenceObject(info.id)!);
+            return;
+        }
+        setPending(info);
+        setHeightText('');
+        setWidthText('');
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!pending) return;
+        const reference = createReferenceObject(pending.id, { heightCm: parseFloat(heightText), widthCm: parseFloat(widthText) });
+        if (!reference) {
+            setError(pending.input === 'tile_size'
+                ? 'Enter both sides of one tile, between 5 and 150 cm.'
+                : 'Enter a height between 120 and 230 cm.');
+            return;
+        }
+        onSelect(reference);
+    };
+
+    return (
+        <div className="w-full flex flex-col items-center gap-4">
+            <div className="w-full grid grid-cols-2 sm:grid-cols-3 gap-3">
+                {REFERENCE_OBJECTS.map(info => {
+                    const Icon = icons[info.id];
+                    const fixed = createReferenceObject(info.id);
+                    return (
+                        <button
+                            key={info.id}
+                            type="button"
+                            onClick={() => handlePick(info)}
+                            className={`bg-gray-800 rounded-xl flex flex-col items-center justify-center p-3 border-2 transition-all hover:bg-gray-700 hover:border-cyan-500 focus:outline-none focus:ring-2 focus:ring-cyan-400 ${pending?.id === info.id ? 'border-cyan-500' : 'border-transparent'}`}
+                        >
+                            <Icon className="w-10 h-10 text-gray-400 mb-1" />
+                            <span className="text-sm font-semibold text-white">{info.label}</span>
+                            <span className="text-xs text-gray-400">{fixed ? formatReferenceSize(fixed) : 'Enter its size'}</span>
+                            <span className={`text-xs ${accuracyLabels[info.accuracy].className}`}>{accuracyLabels[info.accuracy].text}</span>
+                        </button>
+                    );
+                })}
+            </div>
+
+            {pending && (
+                <form onSubmit={handleSubmit} className="w-full flex flex-col items-center gap-3 bg-gray-900/50 p-4 rounded-lg animate-fade-in">
+                    {pending.input === 'tile_size' ? (
+                        <label className="flex flex-wrap items-center justify-center gap-2 text-sm text-gray-300">
+                            One tile is
+                            <input type="number" inputMode="decimal" step="0.1" value={heightText} onChange={(e) => setHeightText(e.target.value)} className={inputClassName} aria-label="Tile length in cm" autoFocus />
+                            ×
+                            <input type="number" inputMode="decimal" step="0.1" value={widthText} onChange={(e) => setWidthText(e.target.value)} className={inputClassName} aria-label="Tile width in cm" />
+                            cm
+                        </label>
+                    ) : (
+                        <label className="flex items-center justify-center gap-2 text-sm text-gray-300">
+                            Your companion is
+                            <input type="number" inputMode="decimal" step="0.5" value={heightText} onChange={(e) => setHeightText(e.target.value)} className={inputClassName} aria-label="Companion height in cm" autoFocus />
+                            cm tall
+                        </label>
+                    )}
+                    {error && <p className="text-red-400 text-sm">{error}</p>}
+                    <button type="submit" className="w-full sm:max-w-xs bg-cyan-600 text-white font-bold py-2 px-6 rounded-lg hover:bg-cyan-500 transition-colors">
+                        Continue
+                    </button>
+                </form>
+            )}
+        </div>
+    );
+};
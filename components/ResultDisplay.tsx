@@ -1,59 +1,144 @@
 import React from 'react';
-import type { AnalysisResult } from '../types';
+import type { AnalysisResult, CaptureMethod, CapturedImage, PersonalDetails, UnitSystem } from '../types';
 import { InfoIcon } from './icons';
 import { Suggestions } from './Suggestions';
+import { AnnotatedImage } from './AnnotatedImage';
+import { PersonalDetailsInput } from './PersonalDetailsInput';
+import { ExportMenu } from './ExportMenu';
+import { viewLabels } from './ViewProgress';
+import { formatHeight, formatHeightRange, formatWeight, formatWeightRange } from '../utils/units';
+import { bmiGaugePosition, getBmiCategoriesInRange, getBmiScheme } from '../utils/bmi';
+import { formatRange, resolveRange } from '../utils/uncertainty';
+import { computeBodyComposition, type DerivedMetric } from '../utils/bodyMetrics';
 
 interface ResultDisplayProps {
   result: AnalysisResult;
+  method: CaptureMethod;
+  /** When the analysis finished, as a Unix timestamp in ms. */
+  measuredAt: number;
+  /** The front image the result was computed from, shown with the measured keypoints. */
+  image: CapturedImage | null;
   onReset: () => void;
+  onRetake: () => void;
+  onViewHistory: () => void;
+  /** Optional age and sex, needed for body fat and BMR, plus activity and goal for tailored suggestions. */
+  personalDetails: PersonalDetails;
+  onPersonalDetailsChange: (details: PersonalDetails) => void;
+  /** Shown first; the other system is shown underneath. */
+  units: UnitSystem;
+  /** Name of the profile the result belongs to; missing for guests. */
+  profileName?: string;
 }
 
-const MetricCard: React.FC<{ label: string; value: string; subValue: string;}> = ({ label, value, subValue }) => (
+const MetricCard: React.FC<{ label: string; value: string; subValue: string; badge?: string; range?: string }> = ({ label, value, subValue, badge, range }) => (
     <div className="bg-gray-800 rounded-lg p-4 text-center sm:text-left">
-        <p className="text-gray-400 text-sm font-medium">{label}</p>
+        <p className="text-gray-400 text-sm font-medium">
+            {label}
+            {badge && <span className="ml-2 text-xs font-semibold text-cyan-300 bg-cyan-900/50 rounded px-1.5 py-0.5">{badge}</span>}
+        </p>
         <p className="text-2xl font-bold text-white">{value}</p>
+        {range && <p className="text-sm text-cyan-300">Likely {range}</p>}
         <p className="text-gray-400">{subValue}</p>
     </div>
 );
 
-export const ResultDisplay: React.FC<ResultDisplayProps> = ({ result, onReset }) => {
-  const { heightCm, weightKg, bmi, category, color, accuracy } = result;
+interface CompositionCardProps {
+    label: string;
+    metric: DerivedMetric | undefined;
+    format: (value: number) => string;
+    /** Healthy or typical values to compare against. */
+    reference: string;
+    /** How far to trust the number. */
+    note: string;
+    /** Shown instead of a value when the metric can't be computed. */
+    missing: string;
+}
+
+const CompositionCard: React.FC<CompositionCardProps> = ({ label, metric, format, reference, note, missing }) => (
+    <div className="bg-gray-800 rounded-lg p-4 text-center sm:text-left">
+        <p className="text-gray-400 text-sm font-medium">{label}</p>
+        {metric ? (
+            <>
+                <p className="text-2xl font-bold text-white">
+                    {format(metric.value)}
+                    {metric.band && <span className="ml-2 text-sm font-semibold" style={{ color: metric.band.color }}>{metric.band.label}</span>}
+                </p>
+                {metric.range && <p className="text-sm text-cyan-300">Likely {format(metric.range.lower)}–{format(metric.range.upper)}</p>}
+                <p className="text-xs text-gray-400 mt-1">{reference}</p>
+                <p className="text-xs text-gray-500 mt-1">{note}</p>
+            </>
+        ) : (
+            <p className="text-sm text-gray-500 mt-1">{missing}</p>
+        )}
+    </div>
+);
+
+export const ResultDisplay: React.FC<ResultDisplayProps> = ({ result, method, measuredAt, image, onReset, onRetake, onViewHistory, personalDetails, onPersonalDetailsChange, units, profileName }) => {
+  const { heightCm, weightKg, bmi, category, color, accuracy, heightSource, viewEstimates, viewAgreement, frameConsistency, heightRangeCm, weightRangeKg, bmiRange, landmarks, circumferences } = result;
   
-  const heightFeet = Math.floor(heightCm / 30.48);
-  const heightInches = Math.round((heightCm / 2.54) % 12);
-  const weightLbs = (weightKg * 2.20462).toFixed(1);
+  const otherUnits: UnitSystem = units === 'metric' ? 'imperial' : 'metric';
+  const isHeightUserProvided = heightSource === 'user';
 
   const accuracyInfo = {
       high: { text: "High Accuracy", detail: "Reference object detected", color: "text-green-400", iconColor: "text-green-500" },
       medium: { text: "Medium Accuracy", detail: "Estimated from environment", color: "text-yellow-400", iconColor: "text-yellow-500" },
       low: { text: "Low Accuracy", detail: "This is a rough estimate", color: "text-orange-400", iconColor: "text-orange-500" }
   };
-  const currentAccuracy = accuracyInfo[accuracy];
-
-  const bmiMarkerPosition = () => {
-      let position = 0;
-      if (bmi < 18.5) {
-          position = (bmi / 18.5) * 25;
-      } else if (bmi < 25) {
-          position = 25 + ((bmi - 18.5) / 6.5) * 25;
-      } else if (bmi < 30) {
-          position = 50 + ((bmi - 25) / 5) * 25;
-      } else {
-          // Cap visualization at a BMI of 40 for a reasonable scale
-          position = 75 + Math.min(((bmi - 30) / 10), 1) * 25;
-      }
-      // Clamp between 2% and 98% to keep marker visually within the bar
-      return Math.max(2, Math.min(position, 98));
+  const currentAccuracy = isHeightUserProvided
+      ? { ...accuracyInfo[accuracy], detail: "Weight estimated using your height" }
+      : accuracyInfo[accuracy];
+
+  const agreementInfo = {
+      high: { text: "Views agree closely", color: "text-green-400" },
+      medium: { text: "Views roughly agree", color: "text-yellow-400" },
+      low: { text: "Views disagree", color: "text-orange-400" },
+  };
+
+  const consistencyInfo = {
+      high: { text: "Consistent across frames", color: "text-green-400" },
+      medium: { text: "Somewhat consistent across frames", color: "text-yellow-400" },
+      low: { text: "Inconsistent across frames", color: "text-orange-400" },
+  };
+
+  const composition = computeBodyComposition(result, personalDetails);
+  const { waistCm, hipCm, neckCm } = circumferences ?? {};
+  const { sex } = personalDetails;
+  const describeCircumference = (name: string, valueCm: number) => {
+      const range = resolveRange(valueCm, undefined, undefined, accuracy, 'circumference');
+      return `${name} ${valueCm.toFixed(0)} cm (±${((range.upper - range.lower) / 2).toFixed(0)} cm)`;
   };
 
+  // The classification the result was made with, not necessarily the current setting.
+  const scheme = getBmiScheme(result.bmiScheme);
+  const rangeCategories = getBmiCategoriesInRange(bmiRange, scheme);
+  const crossesBoundary = rangeCategories.length > 1;
+
+  const bmiMarkerPosition = (bmi: number) => bmiGaugePosition(bmi, scheme);
+
 
   return (
     <div className="p-4 animate-fade-in flex flex-col items-center w-full max-w-lg mx-auto">
-        <h2 className="text-3xl font-bold text-white mb-6 text-center">Your Results</h2>
+        <h2 className="text-3xl font-bold text-white mb-6 text-center">{profileName ? `${profileName}'s Results` : 'Your Results'}</h2>
+
+        {image && (
+            <>
+                <AnnotatedImage image={image} landmarks={landmarks} subjectBox={result.subjectBox} />
+                <p className="text-xs text-gray-400 -mt-4 mb-6 text-center">
+                    Markers in the wrong place?{' '}
+                    <button onClick={onRetake} className="text-cyan-400 hover:text-cyan-300 font-semibold underline">Retake the photo</button>
+                </p>
+            </>
+        )}
 
         <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mb-6 w-full">
-            <MetricCard label="Height" value={`${heightCm.toFixed(1)} cm`} subValue={`${heightFeet}' ${heightInches}"`} />
-            <MetricCard label="Weight" value={`${weightKg.toFixed(1)} kg`} subValue={`${weightLbs} lbs`} />
+            <MetricCard
+                label="Height"
+                value={formatHeight(heightCm, units)}
+                subValue={formatHeight(heightCm, otherUnits)}
+                badge={isHeightUserProvided ? 'User-provided' : 'Estimated'}
+                range={isHeightUserProvided ? undefined : formatHeightRange(heightRangeCm, units)}
+            />
+            <MetricCard label="Weight" value={formatWeight(weightKg, units)} subValue={formatWeight(weightKg, otherUnits)} range={formatWeightRange(weightRangeKg, units)} />
         </div>
         
         <div className="bg-gray-900 rounded-lg p-6 mb-4 text-center w-full">
@@ -62,17 +147,41 @@ export const ResultDisplay: React.FC<ResultDisplayProps> = ({ result, onReset })
             <p className="text-xl font-semibold" style={{ color: color }}>
                {category}
             </p>
+            <p className="text-sm text-gray-400 mt-1">
+                Likely range {formatRange(bmiRange)}
+                {crossesBoundary && (
+                    <>
+                        {' · '}
+                        {rangeCategories.map((c, index) => (
+                            <React.Fragment key={c.category}>
+                                {index > 0 && '–'}
+                                <span style={{ color: c.color }}>{c.category}</span>
+                            </React.Fragment>
+                        ))}
+                    </>
+                )}
+            </p>
+            {crossesBoundary && (
+                <p className="text-xs text-amber-400/80 mt-1">The estimate is close to a category boundary, so the category is uncertain.</p>
+            )}
             
             <div className="w-full mt-4 pt-4 relative">
                 <div className="h-3 w-full flex rounded-full overflow-hidden">
-                    <div className="w-1/4 bg-[#3b82f6]"></div>
-                    <div className="w-1/4 bg-[#22c55e]"></div>
-                    <div className="w-1/4 bg-[#f97316]"></div>
-                    <div className="w-1/4 bg-[#ef4444]"></div>
+                    {scheme.bands.map(band => (
+                        <div key={band.category} className="flex-1" style={{ backgroundColor: band.color }} title={band.category}></div>
+                    ))}
                 </div>
+                <div
+                    className="absolute top-4 h-3 rounded-full border-2 border-white/80 bg-white/25 transition-all duration-500"
+                    style={{
+                        left: `${bmiMarkerPosition(bmiRange.lower)}%`,
+                        width: `${bmiMarkerPosition(bmiRange.upper) - bmiMarkerPosition(bmiRange.lower)}%`,
+                    }}
+                    title={`Likely BMI range: ${formatRange(bmiRange)}`}
+                ></div>
                 <div 
                     className="absolute top-0 h-full flex flex-col items-center transition-all duration-500 -translate-x-1/2"
-                    style={{ left: `${bmiMarkerPosition()}%` }}
+                    style={{ left: `${bmiMarkerPosition(bmi)}%` }}
                     title={`Your BMI: ${bmi.toFixed(1)}`}
                 >
                     <div style={{
@@ -83,12 +192,15 @@ export const ResultDisplay: React.FC<ResultDisplayProps> = ({ result, onReset })
                         borderTop: '8px solid white',
                     }}></div>
                 </div>
-                 <div className="w-full flex justify-between text-xs text-gray-400 mt-1 px-[12.5%]">
-                    <span>18.5</span>
-                    <span>25</span>
-                    <span>30</span>
+                <div className="relative w-full h-4 text-xs text-gray-400 mt-1">
+                    {scheme.bands.slice(1).map((band, index) => (
+                        <span key={band.category} className="absolute -translate-x-1/2" style={{ left: `${((index + 1) / scheme.bands.length) * 100}%` }}>
+                            {band.min}
+                        </span>
+                    ))}
                 </div>
             </div>
+            <p className="text-xs text-gray-500 mt-2">Categories: {scheme.name}</p>
         </div>
         
         {currentAccuracy && (
@@ -99,18 +211,119 @@ export const ResultDisplay: React.FC<ResultDisplayProps> = ({ result, onReset })
                         {currentAccuracy.text}
                     </p>
                     <p className="text-xs text-gray-400">{currentAccuracy.detail}</p>
+                    {result.imageQuality && (
+                        <p className="text-xs text-gray-500">Image quality {result.imageQuality.score}/100</p>
+                    )}
+                    {result.camera && (
+                        <p className="text-xs text-gray-500">
+                            {result.camera.deviceLabel ?? 'Camera'}, {result.camera.width}×{result.camera.height}{result.camera.mirrored ? ', mirrored' : ''}
+                        </p>
+                    )}
+                    {result.cachedAt && (
+                        <p className="text-xs text-cyan-300" title="This exact image was analyzed before, so no new AI call was made. You can turn this off in Settings.">
+                            Cached result from {new Date(result.cachedAt).toLocaleString()}
+                        </p>
+                    )}
                 </div>
             </div>
         )}
         
-        <Suggestions category={category} />
-
-        <button
-            onClick={onReset}
-            className="w-full sm:w-auto bg-cyan-600 text-white font-bold py-3 px-8 rounded-lg hover:bg-cyan-500 transition-colors mt-6"
-        >
-            Analyze Another Image
-        </button>
+        {viewAgreement && viewEstimates && (
+            <div className="bg-gray-800/50 border border-gray-700 rounded-lg p-3 text-center mb-6 w-full">
+                <p className={`font-semibold ${agreementInfo[viewAgreement.level].color}`}>
+                    {agreementInfo[viewAgreement.level].text}
+                </p>
+                <p className="text-xs text-gray-400 mb-2">
+                    Spread between {viewEstimates.length} views: {viewAgreement.heightSpreadCm.toFixed(1)} cm height, {viewAgreement.weightSpreadKg.toFixed(1)} kg weight
+                </p>
+                <div className="flex justify-center gap-4 text-xs text-gray-300">
+                    {viewEstimates.map(estimate => (
+                        <span key={estimate.view}>
+                            {viewLabels[estimate.view]}: {estimate.heightCm.toFixed(0)} cm / {estimate.weightKg.toFixed(1)} kg
+                        </span>
+                    ))}
+                </div>
+            </div>
+        )}
+
+        {frameConsistency && (
+            <div className="bg-gray-800/50 border border-gray-700 rounded-lg p-3 text-center mb-6 w-full">
+                <p className={`font-semibold ${consistencyInfo[frameConsistency.level].color}`}>
+                    {consistencyInfo[frameConsistency.level].text}
+                </p>
+                <p className="text-xs text-gray-400">
+                    Median of {frameConsistency.usedFrames} of {frameConsistency.analyzedFrames} analyzed frames
+                    {frameConsistency.usedFrames < frameConsistency.analyzedFrames ? ' (outliers left out)' : ''}.
+                    Spread: {frameConsistency.heightSpreadCm.toFixed(1)} cm height, {frameConsistency.weightSpreadKg.toFixed(1)} kg weight.
+                </p>
+            </div>
+        )}
+
+        <div className="w-full mb-6">
+            <h3 className="text-lg font-semibold text-white mb-1 text-center">Body Composition</h3>
+            <p className="text-xs text-gray-400 text-center mb-3">
+                Estimated from the body outline in the photo, which is much less precise than a tape measure. Add your age and sex for body fat and BMR.
+            </p>
+            <PersonalDetailsInput details={personalDetails} onChange={onPersonalDetailsChange} />
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mt-4">
+                <CompositionCard
+                    label="Waist-to-Height Ratio"
+                    metric={composition.waistToHeight}
+                    format={value => value.toFixed(2)}
+                    reference="Healthy: 0.40–0.49. From 0.50, health risks increase."
+                    note={waistCm !== undefined ? `Based on an estimated ${describeCircumference('waist of', waistCm)}.` : ''}
+                    missing="The waist could not be estimated from this photo."
+                />
+                <CompositionCard
+                    label="Waist-to-Hip Ratio"
+                    metric={composition.waistToHip}
+                    format={value => value.toFixed(2)}
+                    reference={sex
+                        ? `Increased risk from ${sex === 'male' ? '0.90' : '0.85'} (WHO).`
+                        : 'Increased risk from 0.90 for men and 0.85 for women (WHO). Add your sex for a rating.'}
+                    note={waistCm !== undefined && hipCm !== undefined
+                        ? `${describeCircumference('Waist', waistCm)}, ${describeCircumference('hips', hipCm)}.`
+                        : ''}
+                    missing="The waist and hips could not both be estimated from this photo."
+                />
+                <CompositionCard
+                    label="Body Fat (US Navy)"
+                    metric={composition.bodyFatPercent}
+                    format={value => `${value.toFixed(1)}%`}
+                    reference={sex === 'female' ? 'Fit: 21–24%, average: 25–31%.' : 'Fit: 14–17%, average: 18–24%.'}
+                    note={`Uses the estimated waist${sex === 'female' ? ', hips' : ''} and neck${neckCm !== undefined ? ` (${neckCm.toFixed(0)} cm)` : ''}. Small circumference errors change the result noticeably.`}
+                    missing={!sex
+                        ? 'Add your sex to estimate body fat.'
+                        : 'The waist, hips or neck could not be estimated well enough for this formula.'}
+                />
+                <CompositionCard
+                    label="Basal Metabolic Rate"
+                    metric={composition.bmrKcal}
+                    format={value => `${Math.round(value).toLocaleString()} kcal`}
+                    reference="Calories your body burns per day at complete rest (Mifflin-St Jeor)."
+                    note="Follows the weight range. Muscular people burn more than the formula suggests."
+                    missing="Add your age and sex to estimate your BMR."
+                />
+            </div>
+        </div>
+
+        <Suggestions result={result} details={personalDetails} units={units} />
+
+        <div className="flex flex-col sm:flex-row gap-2 w-full sm:w-auto mt-6">
+            <ExportMenu result={{ ...result, method, timestamp: measuredAt }} />
+            <button
+                onClick={onViewHistory}
+                className="w-full sm:w-auto bg-gray-600 text-white font-bold py-3 px-8 rounded-lg hover:bg-gray-500 transition-colors"
+            >
+                View History
+            </button>
+            <button
+                onClick={onReset}
+                className="w-full sm:w-auto bg-cyan-600 text-white font-bold py-3 px-8 rounded-lg hover:bg-cyan-500 transition-colors"
+            >
+                Analyze Another Image
+            </button>
+        </div>
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,93 @@
+import React, { useEffect, useState } from 'react';
+import type { BmiSchemeId } from '../types';
+import type { AppSettings } from '../services/settingsStore';
+import { clearResponseCache, countCachedResponses } from '../services/responseCache';
+import { BMI_SCHEMES } from '../utils/bmi';
+import { ArrowLeftIcon } from './icons';
+
+interface SettingsViewProps {
+    settings: AppSettings;
+    /** With a profile active, the BMI classification is saved to that profile. */
+    profileName?: string;
+    onChange: (settings: AppSettings) => void;
+    onBack: () => void;
+}
+
+export const SettingsView: React.FC<SettingsViewProps> = ({ settings, profileName, onChange, onBack }) => {
+    // null while loading or when IndexedDB is unavailable.
+    const [cachedCount, setCachedCount] = useState<number | null>(null);
+
+    useEffect(() => {
+        countCachedResponses().then(setCachedCount, err => console.warn('Could not read the response cache:', err));
+    }, []);
+
+    const handleClearCache = async () => {
+        try {
+            await clearResponseCache();
+            setCachedCount(0);
+        } catch (err) {
+            console.error('Failed to clear the response cache:', err);
+        }
+    };
+
+    return (
+        <div className="w-full p-4 flex flex-col gap-6 animate-fade-in">
+            <button onClick={onBack} className="absolute top-6 left-6 text-gray-400 hover:text-white transition-colors">
+                <ArrowLeftIcon />
+            </button>
+            <h2 className="text-2xl font-bold text-white text-center">Settings</h2>
+
+            <section>
+                <h3 className="text-lg font-semibold text-white mb-1">BMI classification</h3>
+                <p className="text-sm text-gray-400 mb-3">Which cut-offs to use for the BMI categories, gauge and suggestions. Saved results keep the classification they were made with.{profileName ? ` Applies to ${profileName}'s profile.` : ''}</p>
+                <div className="flex flex-col gap-2">
+                    {(Object.keys(BMI_SCHEMES) as BmiSchemeId[]).map(id => {
+                        const scheme = BMI_SCHEMES[id];
+                        const selected = settings.bmiScheme === id;
+                        return (
+                            <button
+                                key={id}
+                                onClick={() => onChange({ ...settings, bmiScheme: id })}
+                                className={`text-left rounded-lg p-3 border-2 transition-colors ${selected ? 'border-cyan-500 bg-gray-800' : 'border-transparent bg-gray-800/60 hover:bg-gray-700'}`}
+                            >
+                                <p className="font-semibold text-white">{scheme.name}</p>
+                                <p className="text-xs text-gray-400">{scheme.description}</p>
+                                <div className="h-2 w-full flex rounded-full overflow-hidden mt-2">
+                                    {scheme.bands.map(band => (
+                                        <div key={band.category} className="flex-1" style={{ backgroundColor: band.color }} title={band.category}></div>
+                                    ))}
+                                </div>
+                            </button>
+                        );
+                    })}
+                </div>
+            </section>
+
+            <section>
+                <h3 className="text-lg font-semibold text-white mb-1">Result cache</h3>
+                <p className="text-sm text-gray-400 mb-3">Analyzing the exact same image again reuses the earlier result instead of making a new AI call. Results are kept on this device for 30 days.</p>
+                <label className="flex items-center gap-3 text-gray-200 mb-3">
+                    <input
+                        type="checkbox"
+                        checked={settings.useResponseCache}
+                        onChange={(e) => onChange({ ...settings, useResponseCache: e.target.checked })}
+                        className="w-4 h-4 accent-cyan-500"
+                    />
+                    Reuse cached results
+                </label>
+                <div className="flex items-center gap-3">
+                    <button
+                        onClick={handleClearCache}
+                        disabled={!cachedCount}
+                        className="bg-gray-600 text-white font-semibold py-2 px-4 rounded-lg hover:bg-gray-500 transition-colors disabled:bg-gray-700 disabled:text-gray-500"
+                    >
+                        Clear cache
+                    </button>
+                    {cachedCount !== null && (
+                        <span className="text-xs text-gray-400">{cachedCount === 1 ? '1 cached result' : `${cachedCount} cached results`}</span>
+                    )}
+                </div>
+            </section>
+        </div>
+    );
+};
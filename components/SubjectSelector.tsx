@@ -0,0 +1,42 @@
+import React from 'react';
+import type { BoundingBox, CapturedImage } from '../types';
+import { ArrowLeftIcon } from './icons';
+
+interface SubjectSelectorProps {
+    image: CapturedImage;
+    /** Everyone the model found on the image, in normalized coordinates. */
+    people: BoundingBox[];
+    onSelect: (box: BoundingBox) => void;
+    onBack: () => void;
+}
+
+const toPercent = (value: number) => `${value * 100}%`;
+
+/** Shown when a photo contains several adults, so the user can tap the one to measure. */
+export const SubjectSelector: React.FC<SubjectSelectorProps> = ({ image, people, onSelect, onBack }) => (
+    <div className="w-full p-4 flex flex-col items-center gap-4 animate-fade-in text-center">
+        <button onClick={onBack} className="absolute top-6 left-6 text-gray-400 hover:text-white transition-colors">
+            <ArrowLeftIcon />
+        </button>
+        <div>
+            <h2 className="text-2xl font-bold text-white mb-2">Who should be measured?</h2>
+            <p className="text-gray-400 max-w-xs mx-auto">We found {people.length} people in this photo. Tap the person you want to measure.</p>
+        </div>
+        <div className="relative inline-block max-w-full">
+            <img src={`data:${image.mimeType};base64,${image.base64Image}`} alt="People found in the photo" className="rounded-lg max-h-96 w-auto block" />
+            {people.map((box, index) => (
+                <button
+                    key={index}
+                    onClick={() => onSelect(box)}
+                    className="absolute border-2 border-cyan-400 bg-cyan-400/10 hover:bg-cyan-400/30 rounded transition-colors focus:outline-none focus:ring-2 focus:ring-white"
+                    style={{ left: toPercent(box.x), top: toPercent(box.y), width: toPercent(box.width), height: toPercent(box.height) }}
+                    title={`Person ${index + 1}`}
+                >
+                    <span className="absolute top-1 left-1 bg-cyan-500 text-white text-xs font-bold rounded-full w-6 h-6 flex items-center justify-center">
+                        {index + 1}
+                    </span>
+                </button>
+            ))}
+        </div>
+    </div>
+);
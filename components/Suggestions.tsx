@@ -1,60 +1,67 @@
 import React from 'react';
+import type { AnalysisResult, PersonalDetails, UnitSystem } from '../types';
+import { getBmiScheme } from '../utils/bmi';
+import { buildSuggestions } from '../utils/suggestions';
+import { formatHeight, formatWeight, formatWeightRange } from '../utils/units';
 
 interface SuggestionsProps {
-    category: 'Underweight' | 'Normal weight' | 'Overweight' | 'Obese';
+    result: AnalysisResult;
+    /** Optional details that tailor the suggestions. */
+    details: PersonalDetails;
+    units: UnitSystem;
 }
 
-const suggestionData = {
-    'Underweight': {
-        title: "Focus on Nutrient-Rich Foods",
-        points: [
-            "Consider eating smaller, more frequent meals throughout the day.",
-            "Incorporate healthy fats like avocados, nuts, and seeds.",
-            "Choose whole grains and lean protein sources to build healthy muscle mass."
-        ]
-    },
-    'Normal weight': {
-        title: "Keep Up the Great Work!",
-        points: [
-            "Maintain a balanced diet with plenty of fruits, vegetables, and whole grains.",
-            "Stay active with regular physical activity that you enjoy.",
-            "Continue to monitor your health and listen to your body's needs."
-        ]
-    },
-    'Overweight': {
-        title: "Focus on a Balanced Lifestyle",
-        points: [
-            "Incorporate more whole foods like fruits, vegetables, and lean proteins.",
-            "Aim for regular physical activity, such as brisk walking, cycling, or swimming.",
-            "Consider portion control and mindful eating to better manage calorie intake."
-        ]
-    },
-    'Obese': {
-        title: "Building Healthier Habits",
-        points: [
-            "Start with small, sustainable changes to your diet and activity levels.",
-            "Focus on a balanced diet rich in fiber and protein to help you feel full.",
-            "It is highly recommended to consult with a healthcare professional or a registered dietitian to create a safe and personalized plan."
-        ]
-    }
-}
+const detailLabels: Record<keyof PersonalDetails, string> = {
+    age: 'age',
+    sex: 'sex',
+    activity: 'activity level',
+    goal: 'goal',
+};
+
+const joinList = (items: string[]) => items.length > 1 ? `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}` : items[0];
+
+export const Suggestions: React.FC<SuggestionsProps> = ({ result, details, units }) => {
+    // The scheme the result was classified with, so the range matches the category shown above.
+    const scheme = getBmiScheme(result.bmiScheme);
+    const plan = buildSuggestions({
+        heightCm: result.heightCm,
+        weightKg: result.weightKg,
+        weightRangeKg: result.weightRangeKg,
+        bmi: result.bmi,
+        scheme,
+        details,
+    });
+    const change = Math.abs(plan.changeKg);
 
-export const Suggestions: React.FC<SuggestionsProps> = ({ category }) => {
-    const suggestions = suggestionData[category];
-    
-    if (!suggestions) return null;
-    
     return (
         <div className="w-full bg-gray-900 rounded-lg p-6 text-left">
-            <h3 className="text-xl font-bold text-white mb-3">{suggestions.title}</h3>
+            <h3 className="text-xl font-bold text-white mb-3">{plan.title}</h3>
+            <div className="bg-gray-800 rounded-lg p-3 mb-4">
+                <p className="text-sm text-gray-400">Healthy weight for {formatHeight(result.heightCm, units)} ({scheme.name})</p>
+                <p className="text-lg font-semibold text-white">
+                    {formatWeightRange(plan.healthyRangeKg, units, 0)}
+                    <span className="ml-2 text-sm font-normal text-gray-400">{formatWeightRange(plan.healthyRangeKg, units === 'metric' ? 'imperial' : 'metric', 0)}</span>
+                </p>
+                <p className="text-sm text-cyan-300">
+                    {plan.status === 'within'
+                        ? 'Your estimated weight is within this range.'
+                        : `About ${formatWeight(change, units)} to ${plan.status === 'above' ? 'lose' : 'gain'} to reach it.`}
+                </p>
+            </div>
             <ul className="list-disc list-inside space-y-2 text-gray-300">
-                {suggestions.points.map((point, index) => (
+                {plan.points.map((point, index) => (
                     <li key={index}>{point}</li>
                 ))}
             </ul>
+            {plan.missingDetails.length > 0 && (
+                <p className="text-xs text-gray-400 mt-3">
+                    Add your {joinList(plan.missingDetails.map(key => detailLabels[key]))} above for more tailored suggestions.
+                </p>
+            )}
              <p className="text-xs text-gray-500 mt-4">
-                <strong>Disclaimer:</strong> These are general suggestions and not medical advice. Always consult with a healthcare professional for personalized guidance.
+                <strong>Disclaimer:</strong> {plan.disclaimer}
             </p>
+            <p className="text-xs text-gray-600 mt-1">Suggestion rules v{plan.version}</p>
         </div>
     );
-};
\ No newline at end of file
+};
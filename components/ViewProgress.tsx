@@ -0,0 +1,37 @@
+import React from 'react';
+import type { CaptureView, CapturedImage } from '../types';
+import { CheckIcon } from './icons';
+
+export const viewLabels: Record<CaptureView, string> = {
+    front: 'Front',
+    side: 'Side',
+    back: 'Back',
+};
+
+/** Views offered in multi-view mode; the first two are required, the rest optional. */
+export const MULTI_VIEW_SEQUENCE: CaptureView[] = ['front', 'side', 'back'];
+export const REQUIRED_MULTI_VIEWS = 2;
+
+interface ViewProgressProps {
+    views: CaptureView[];
+    captured: CapturedImage[];
+    activeView: CaptureView | null;
+}
+
+export const ViewProgress: React.FC<ViewProgressProps> = ({ views, captured, activeView }) => (
+    <ol className="flex gap-2 justify-center">
+        {views.map((view, index) => {
+            const isDone = captured.some(c => c.view === view);
+            const isActive = view === activeView;
+            return (
+                <li
+                    key={view}
+                    className={`flex items-center gap-1 px-3 py-1 rounded-full text-xs font-semibold ${isActive ? 'bg-cyan-600 text-white' : isDone ? 'bg-gray-700 text-green-400' : 'bg-gray-800 text-gray-500'}`}
+                >
+                    {isDone && !isActive ? <CheckIcon className="w-3 h-3" /> : <span>{index + 1}.</span>}
+                    {viewLabels[view]}
+                </li>
+            );
+        })}
+    </ol>
+);
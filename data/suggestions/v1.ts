@@ -0,0 +1,70 @@
+import type { SuggestionRuleSet } from '../../utils/suggestions';
+
+/**
+ * Version 1 of the suggestion rules. Published versions are never edited: copy this file to the next
+ * version, change the copy and point `utils/suggestions.ts` at it, so a wording change is always traceable.
+ */
+export const SUGGESTION_RULES: SuggestionRuleSet = {
+    version: 1,
+    paceKgPerWeek: {
+        lose: [0.5, 1],
+        gain: [0.25, 0.5],
+    },
+    titles: [
+        { id: 'severe_obesity', when: { minBmi: 35 }, text: "Get Support for Your Health" },
+        { id: 'goal_conflict_lose', when: { status: ['below'], goals: ['lose'] }, text: "Rethink Losing Weight" },
+        { id: 'underweight', when: { status: ['below'] }, text: "Focus on Nutrient-Rich Foods" },
+        { id: 'healthy', when: { status: ['within'] }, text: "Keep Up the Great Work!" },
+        { id: 'overweight', when: { status: ['above'], maxBmi: 30 }, text: "Focus on a Balanced Lifestyle" },
+        { id: 'obesity', when: { status: ['above'] }, text: "Building Healthier Habits" },
+    ],
+    points: [
+        // The estimate itself
+        { id: 'uncertain_estimate', when: { status: ['below', 'above'], nearHealthyRange: true }, text: "The likely range of your weight estimate already reaches the healthy range, so check on a scale before changing anything." },
+
+        // Goals that don't fit the measurement
+        { id: 'goal_lose_below', when: { status: ['below'], goals: ['lose'] }, text: "You're already below the healthy range for your height. Please talk to a doctor before losing more weight." },
+        { id: 'goal_lose_within', when: { status: ['within'], goals: ['lose'] }, text: "You're within the healthy range already. If you want to change shape, strength training does more than losing weight." },
+        { id: 'goal_gain_above', when: { status: ['above'], goals: ['gain'] }, text: "You're above the healthy range, so aim to gain muscle rather than weight. BMI can't tell the two apart, so a muscular build may read high." },
+
+        // Comes before the pace, which it qualifies.
+        { id: 'older_overweight', when: { status: ['above'], ageBands: ['65+'], maxBmi: 30 }, text: "After 65, being a little above the range carries little extra risk. Keeping your muscle and strength matters more than losing weight." },
+
+        // Pace
+        { id: 'pace_lose', when: { status: ['above'] }, text: "Losing about {changeKg} kg would bring you to the healthy range. At a safe pace of {pace} kg a week, that takes roughly {weeks} weeks." },
+        { id: 'pace_gain', when: { status: ['below'] }, text: "Gaining about {changeKg} kg would bring you to the healthy range. At {pace} kg a week, that takes roughly {weeks} weeks." },
+
+        // Severe obesity
+        { id: 'severe_doctor', when: { minBmi: 35 }, text: "Please talk to a doctor: at this BMI, professional support makes a real difference and can include options beyond diet and exercise." },
+        { id: 'severe_checks', when: { minBmi: 35 }, text: "Ask about checks for blood pressure, blood sugar and cholesterol." },
+        { id: 'severe_activity', when: { minBmi: 35 }, text: "Choose gentle, joint-friendly activity such as walking, swimming or cycling, and build up gradually." },
+
+        // Age and sex
+        { id: 'older_underweight', when: { status: ['below'], ageBands: ['65+'] }, text: "At your age, weight loss you didn't intend is worth mentioning to a doctor." },
+        { id: 'midlife_waist', when: { status: ['above'], ageBands: ['40-64'] }, text: "From midlife, fat around the waist matters more than weight. The waist-to-height ratio above is a good number to track." },
+        { id: 'female_underweight', when: { status: ['below'], sexes: ['female'] }, text: "Being underweight can affect periods and bone density. A doctor can check both." },
+        { id: 'male_waist', when: { status: ['above'], sexes: ['male'] }, text: "Men tend to store weight around the belly, which raises heart risk the most, so watch your waist measurement." },
+
+        // Activity
+        { id: 'sedentary', when: { activity: ['sedentary'] }, text: "Work up to 150 minutes of moderate activity a week, such as brisk walking, spread over most days." },
+        { id: 'light_above', when: { status: ['above'], activity: ['light'] }, text: "Add two strength sessions a week; muscle burns more energy, even at rest." },
+        { id: 'active_above', when: { status: ['above'], activity: ['active', 'very_active'] }, text: "You're already active, so what and how much you eat will make the most difference." },
+        { id: 'active_below', when: { status: ['below'], activity: ['active', 'very_active'] }, text: "Eat enough to cover your training, for example a snack with protein and carbohydrates around workouts." },
+        { id: 'maintain', when: { status: ['within'], goals: ['maintain'] }, text: "Weigh yourself at the same time once a week, so a drift shows up early." },
+
+        // General advice by weight status
+        { id: 'below_meals', when: { status: ['below'] }, text: "Consider eating smaller, more frequent meals throughout the day." },
+        { id: 'below_fats', when: { status: ['below'] }, text: "Incorporate healthy fats like avocados, nuts, and seeds." },
+        { id: 'below_protein', when: { status: ['below'] }, text: "Choose whole grains and lean protein sources to build healthy muscle mass." },
+        { id: 'within_diet', when: { status: ['within'] }, text: "Maintain a balanced diet with plenty of fruits, vegetables, and whole grains." },
+        { id: 'within_active', when: { status: ['within'] }, text: "Stay active with regular physical activity that you enjoy." },
+        { id: 'within_monitor', when: { status: ['within'] }, text: "Continue to monitor your health and listen to your body's needs." },
+        { id: 'above_professional', when: { status: ['above'], minBmi: 30 }, text: "It is highly recommended to consult with a healthcare professional or a registered dietitian to create a safe and personalized plan." },
+        { id: 'above_small_changes', when: { status: ['above'], minBmi: 30 }, text: "Start with small, sustainable changes to your diet and activity levels." },
+        { id: 'above_whole_foods', when: { status: ['above'] }, text: "Incorporate more whole foods like fruits, vegetables, and lean proteins." },
+        { id: 'above_activity', when: { status: ['above'] }, text: "Aim for regular physical activity, such as brisk walking, cycling, or swimming." },
+        { id: 'above_portions', when: { status: ['above'] }, text: "Consider portion control and mindful eating to better manage calorie intake." },
+    ],
+    maxPoints: 5,
+    disclaimer: "These are general suggestions and not medical advice. Always consult with a healthcare professional for personalized guidance.",
+};
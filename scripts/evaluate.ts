@@ -0,0 +1,209 @@
+/**
+ * Runs a labeled image dataset through the same analysis path the app uses and reports
+ * how far the estimates are from the truth.
+ *
+ *   npm run evaluate -- --dataset ./data/eval [--out ./eval-results] [--provider gemini|mock] [--replay | --refresh]
+ *
+ * The dataset folder holds the images and a `manifest.json`:
+ *
+ *   [{ "image": "anna.jpg", "method": "paper", "reference": "us_letter", "heightCm": 168, "weightKg": 61 },
+ *    { "images": [{ "file": "ben-front.jpg", "view": "front" }, { "file": "ben-side.jpg", "view": "side" }],
+ *      "method": "pose", "heightCm": 181, "weightKg": 84, "useKnownHeight": true }]
+ *
+ * `reference` is optional for the paper method and defaults to A4 paper. It takes the same form as the
+ * app's URLs: a catalog id, with the entered size for tiles (`floor_tile:60x30`) and companions (`companion:175`).
+ *
+ * Model responses are cached in `<dataset>/.response-cache.json`. `--replay` runs from the cache only,
+ * so a run can be repeated offline; `--refresh` ignores cached entries and records new ones.
+ */
+import { createHash } from 'node:crypto';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import type { CaptureMethod, CaptureView, CapturedImage, GeminiAnalysisResponse } from '../types';
+import type { EstimationProvider, EstimationRequest } from '../services/estimationProvider';
+import { analyzeImageForMetrics, setEstimationProvider } from '../services/analysisService';
+import { AnalysisError } from '../services/analysisError';
+import { createGeminiProvider, PROMPT_VERSION } from '../services/geminiService';
+import { createMockProvider } from '../services/mockProvider';
+import { detectMimeType } from '../utils/imagePreprocess';
+import { formatReferenceParam, parseReferenceParam } from '../utils/referenceObjects';
+import { buildReport, renderMarkdown, type EvaluationSample } from './evaluationReport';
+
+interface ManifestEntry {
+    id?: string;
+    image?: string;
+    images?: { file: string; view: CaptureView }[];
+    method: CaptureMethod;
+    reference?: string;
+    heightCm: number;
+    weightKg: number;
+    /** Pass the true height to the model and only evaluate weight. */
+    useKnownHeight?: boolean;
+}
+
+type ResponseCache = Record<string, GeminiAnalysisResponse>;
+
+const METHODS: CaptureMethod[] = ['paper', 'pose', 'environment'];
+
+/** Thrown in replay mode for a sample the cache has no response for. */
+class ReplayMissError extends Error {
+    constructor() {
+        super('No cached response for this sample (replay mode).');
+        this.name = 'ReplayMissError';
+    }
+}
+
+const cacheKey = (request: EstimationRequest) => {
+    const hash = createHash('sha256');
+    for (const image of request.images) {
+        hash.update(image.view).update(image.base64Image);
+    }
+    const reference = request.reference ? formatReferenceParam(request.reference) : '-';
+    return `v${PROMPT_VERSION}:${request.method}:${reference}:${request.knownHeightCm ?? '-'}:${hash.digest('hex')}`;
+};
+
+/** Serves cached responses and records fresh ones, so later runs can replay them without the network. */
+function createCachingProvider(inner: EstimationProvider | null, cache: ResponseCache, refresh: boolean): EstimationProvider {
+    return {
+        name: inner ? `${inner.name} (cached)` : 'replay',
+        estimate: async (request) => {
+            const key = cacheKey(request);
+            if (!refresh && cache[key]) {
+                return cache[key];
+            }
+            if (!inner) {
+                throw new ReplayMissError();
+            }
+            const response = await inner.estimate(request);
+            cache[key] = response;
+            return response;
+        },
+    };
+}
+
+const readJson = async <T>(file: string, fallback: T): Promise<T> => {
+    try {
+        return JSON.parse(await readFile(file, 'utf8')) as T;
+    } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === 'ENOENT') return fallback;
+        throw err;
+    }
+};
+
+const imageFiles = (entry: ManifestEntry) => entry.images ?? (entry.image ? [{ file: entry.image, view: 'front' as CaptureView }] : []);
+
+async function loadImages(datasetDir: string, entry: ManifestEntry): Promise<CapturedImage[]> {
+    const files = imageFiles(entry);
+    if (files.length === 0) {
+        throw new Error(`Manifest entry ${entry.id ?? '(unnamed)'} has no image.`);
+    }
+    // Dataset images are sent as they are, so only formats the model accepts directly are allowed.
+    return Promise.all(files.map(async ({ file, view }) => {
+        const bytes = await readFile(path.join(datasetDir, file));
+        const mimeType = detectMimeType(bytes);
+        if (!mimeType || !['image/jpeg', 'image/png', 'image/webp'].includes(mimeType)) {
+            throw new Error(`${file} is not a JPEG, PNG or WebP image.`);
+        }
+        return { view, base64Image: bytes.toString('base64'), mimeType };
+    }));
+}
+
+async function main() {
+    const { values } = parseArgs({
+        options: {
+            dataset: { type: 'string' },
+            manifest: { type: 'string' },
+            out: { type: 'string', default: 'eval-results' },
+            provider: { type: 'string', default: 'gemini' },
+            cache: { type: 'string' },
+            replay: { type: 'boolean', default: false },
+            refresh: { type: 'boolean', default: false },
+        },
+    });
+
+    if (!values.dataset) {
+        console.error('Usage: npm run evaluate -- --dataset <dir> [--manifest <file>] [--out <dir>] [--provider gemini|mock] [--replay | --refresh]');
+        process.exit(1);
+    }
+    if (values.replay && values.refresh) {
+        console.error('--replay and --refresh cannot be combined.');
+        process.exit(1);
+    }
+
+    try {
+        process.loadEnvFile('.env.local');
+    } catch {
+        // No env file; rely on the process environment.
+    }
+
+    const datasetDir = path.resolve(values.dataset);
+    const manifestPath = path.resolve(values.manifest ?? path.join(datasetDir, 'manifest.json'));
+    const cachePath = path.resolve(values.cache ?? path.join(datasetDir, '.response-cache.json'));
+    const manifest = await readJson<ManifestEntry[]>(manifestPath, []);
+    if (manifest.length === 0) {
+        console.error(`No samples found in ${manifestPath}.`);
+        process.exit(1);
+    }
+    // A typo would otherwise show up as a method of its own in the report.
+    const unknownMethods = manifest.flatMap((entry, index) => METHODS.includes(entry.method) ? [] : [`entry ${index + 1} ("${entry.method}")`]);
+    if (unknownMethods.length > 0) {
+        console.error(`Unknown method in ${manifestPath}: ${unknownMethods.join(', ')}. Use one of: ${METHODS.join(', ')}.`);
+        process.exit(1);
+    }
+
+    const cache = await readJson<ResponseCache>(cachePath, {});
+    const inner = values.replay
+        ? null
+        : values.provider === 'mock'
+            ? createMockProvider({ latencyMs: 0 })
+            : createGeminiProvider(process.env.GEMINI_API_KEY ?? process.env.API_KEY);
+    const provider = createCachingProvider(inner, cache, values.refresh);
+    setEstimationProvider(provider);
+
+    const samples: EvaluationSample[] = [];
+    for (const [index, entry] of manifest.entries()) {
+        const id = entry.id ?? entry.image ?? entry.images?.[0]?.file ?? `sample-${index + 1}`;
+        const sample: EvaluationSample = { id, method: entry.method, trueHeightCm: entry.heightCm, trueWeightKg: entry.weightKg };
+        try {
+            const images = await loadImages(datasetDir, entry);
+            const reference = entry.reference !== undefined ? parseReferenceParam(entry.reference) : undefined;
+            if (reference === null) {
+                throw new Error(`Unknown reference object "${entry.reference}".`);
+            }
+            sample.estimate = await analyzeImageForMetrics(images, {
+                method: entry.method,
+                reference,
+                knownHeightCm: entry.useKnownHeight ? entry.heightCm : null,
+            });
+        } catch (err) {
+            // The analysis wraps provider failures, so a replay miss arrives as the cause of an AnalysisError.
+            if (err instanceof AnalysisError && err.cause instanceof ReplayMissError) {
+                sample.error = `No cached response for ${imageFiles(entry).map(({ file }) => path.join(datasetDir, file)).join(', ')}; run without --replay to record one.`;
+            } else {
+                sample.error = err instanceof Error ? err.message : String(err);
+            }
+        }
+        samples.push(sample);
+        console.log(`[${index + 1}/${manifest.length}] ${id}: ${sample.estimate ? `${sample.estimate.heightCm.toFixed(1)} cm, ${sample.estimate.weightKg.toFixed(1)} kg` : `failed (${sample.error})`}`);
+    }
+
+    if (!values.replay) {
+        await writeFile(cachePath, JSON.stringify(cache, null, 2));
+    }
+
+    const report = buildReport(provider.name, samples);
+    const markdown = renderMarkdown(report);
+    const outDir = path.resolve(values.out);
+    await mkdir(outDir, { recursive: true });
+    await writeFile(path.join(outDir, 'report.json'), JSON.stringify(report, null, 2));
+    await writeFile(path.join(outDir, 'report.md'), markdown);
+
+    console.log(`\n${markdown}`);
+    console.log(`Reports written to ${outDir}`);
+}
+
+main().catch(err => {
+    console.error(err);
+    process.exit(1);
+});
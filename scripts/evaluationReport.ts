@@ -0,0 +1,190 @@
+import type { AccuracyLevel, CaptureMethod, MetricsEstimate } from '../types';
+import { calculateBMI } from '../utils/bmi';
+
+export interface EvaluationSample {
+    id: string;
+    method: CaptureMethod;
+    trueHeightCm: number;
+    trueWeightKg: number;
+    /** Undefined when the analysis failed; `error` then says why. */
+    estimate?: MetricsEstimate;
+    error?: string;
+}
+
+export interface ErrorStats {
+    n: number;
+    /**
+     * Samples whose height was estimated. Samples analyzed with the true height as a known height get it
+     * echoed back exactly, so they count towards the weight and BMI stats only. The height stats are null when none remain.
+     */
+    heightN: number;
+    heightMae: number | null;
+    heightBias: number | null;
+    weightMae: number;
+    weightBias: number;
+    bmiMae: number;
+    /** Share of samples whose true value fell inside the reported range. */
+    heightRangeCoverage: number | null;
+    weightRangeCoverage: number;
+}
+
+interface AbsErrorSpread {
+    median: number;
+    p90: number;
+    max: number;
+}
+
+export interface AccuracySpread {
+    accuracy: AccuracyLevel;
+    n: number;
+    /** Null when every sample in the group had a known height. */
+    heightAbsError: AbsErrorSpread | null;
+    weightAbsError: AbsErrorSpread;
+}
+
+export interface MethodReport {
+    method: CaptureMethod;
+    total: number;
+    failures: number;
+    stats: ErrorStats | null;
+    byAccuracy: AccuracySpread[];
+}
+
+export interface EvaluationReport {
+    generatedAt: string;
+    provider: string;
+    overall: ErrorStats | null;
+    methods: MethodReport[];
+    samples: EvaluationSample[];
+}
+
+const METHODS: CaptureMethod[] = ['paper', 'pose', 'environment'];
+const ACCURACIES: AccuracyLevel[] = ['high', 'medium', 'low'];
+
+const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+const quantile = (values: number[], q: number) => {
+    const sorted = [...values].sort((a, b) => a - b);
+    const index = (sorted.length - 1) * q;
+    const lower = Math.floor(index);
+    const upper = Math.ceil(index);
+    return sorted[lower] + (sorted[upper] - sorted[lower]) * (index - lower);
+};
+
+const succeeded = (samples: EvaluationSample[]) =>
+    samples.filter((s): s is EvaluationSample & { estimate: MetricsEstimate } => !!s.estimate);
+
+const heightEstimated = (s: { estimate: MetricsEstimate }) => s.estimate.heightSource !== 'user';
+
+const meanOrNull = (values: number[]) => values.length > 0 ? mean(values) : null;
+
+const summarize = (errors: number[]): AbsErrorSpread => ({ median: quantile(errors, 0.5), p90: quantile(errors, 0.9), max: Math.max(...errors) });
+
+export function computeErrorStats(samples: EvaluationSample[]): ErrorStats | null {
+    const ok = succeeded(samples);
+    if (ok.length === 0) return null;
+
+    const estimated = ok.filter(heightEstimated);
+    const heightErrors = estimated.map(s => s.estimate.heightCm - s.trueHeightCm);
+    const weightErrors = ok.map(s => s.estimate.weightKg - s.trueWeightKg);
+    const bmiErrors = ok.map(s => calculateBMI(s.estimate.heightCm, s.estimate.weightKg) - calculateBMI(s.trueHeightCm, s.trueWeightKg));
+    const within = (value: number, range: { lower: number; upper: number }) => value >= range.lower && value <= range.upper;
+
+    return {
+        n: ok.length,
+        heightN: estimated.length,
+        heightMae: meanOrNull(heightErrors.map(Math.abs)),
+        heightBias: meanOrNull(heightErrors),
+        weightMae: mean(weightErrors.map(Math.abs)),
+        weightBias: mean(weightErrors),
+        bmiMae: mean(bmiErrors.map(Math.abs)),
+        heightRangeCoverage: meanOrNull(estimated.map(s => within(s.trueHeightCm, s.estimate.heightRangeCm) ? 1 : 0)),
+        weightRangeCoverage: mean(ok.map(s => within(s.trueWeightKg, s.estimate.weightRangeKg) ? 1 : 0)),
+    };
+}
+
+function computeAccuracySpread(samples: EvaluationSample[]): AccuracySpread[] {
+    const ok = succeeded(samples);
+    return ACCURACIES.flatMap(accuracy => {
+        const group = ok.filter(s => s.estimate.accuracy === accuracy);
+        if (group.length === 0) return [];
+        const heightErrors = group.filter(heightEstimated).map(s => Math.abs(s.estimate.heightCm - s.trueHeightCm));
+        const weightErrors = group.map(s => Math.abs(s.estimate.weightKg - s.trueWeightKg));
+        return [{
+            accuracy,
+            n: group.length,
+            heightAbsError: heightErrors.length > 0 ? summarize(heightErrors) : null,
+            weightAbsError: summarize(weightErrors),
+        }];
+    });
+}
+
+export function buildReport(provider: string, samples: EvaluationSample[]): EvaluationReport {
+    const methods = METHODS
+        .map(method => samples.filter(s => s.method === method))
+        .filter(group => group.length > 0)
+        .map((group): MethodReport => ({
+            method: group[0].method,
+            total: group.length,
+            failures: group.filter(s => !s.estimate).length,
+            stats: computeErrorStats(group),
+            byAccuracy: computeAccuracySpread(group),
+        }));
+
+    return {
+        generatedAt: new Date().toISOString(),
+        provider,
+        overall: computeErrorStats(samples),
+        methods,
+        samples,
+    };
+}
+
+// Height stats are null without estimated heights; those cells show a dash.
+const fmt = (value: number | null, digits = 1) => value === null ? '–' : value.toFixed(digits);
+const signed = (value: number | null, digits = 1) => value === null ? '–' : `${value >= 0 ? '+' : ''}${value.toFixed(digits)}`;
+const pct = (value: number | null) => value === null ? '–' : `${Math.round(value * 100)}%`;
+const spread = (errors: AbsErrorSpread | null) => errors ? `${fmt(errors.median)} / ${fmt(errors.p90)} / ${fmt(errors.max)}` : '–';
+
+export function renderMarkdown(report: EvaluationReport): string {
+    const lines: string[] = [
+        '# Estimation accuracy report',
+        '',
+        `Generated ${report.generatedAt} with provider \`${report.provider}\`.`,
+        '',
+        '## Error by capture method',
+        '',
+        'Height columns leave out samples analyzed with a known height, since those get the true height back.',
+        '',
+        '| Method | Samples | Failed | Estimated heights | Height MAE (cm) | Height bias (cm) | Weight MAE (kg) | Weight bias (kg) | BMI MAE | Height in range | Weight in range |',
+        '| --- | --- | --- | --- | --- | --- | --- | --- | --- | --- | --- |',
+    ];
+    const statsRow = (label: string, total: number, failures: number, stats: ErrorStats | null) => stats
+        ? `| ${label} | ${total} | ${failures} | ${stats.heightN} | ${fmt(stats.heightMae)} | ${signed(stats.heightBias)} | ${fmt(stats.weightMae)} | ${signed(stats.weightBias)} | ${fmt(stats.bmiMae)} | ${pct(stats.heightRangeCoverage)} | ${pct(stats.weightRangeCoverage)} |`
+        : `| ${label} | ${total} | ${failures} | 0 | – | – | – | – | – | – | – |`;
+
+    for (const method of report.methods) {
+        lines.push(statsRow(method.method, method.total, method.failures, method.stats));
+    }
+    const totalFailures = report.methods.reduce((sum, m) => sum + m.failures, 0);
+    lines.push(statsRow('**all**', report.samples.length, totalFailures, report.overall));
+
+    lines.push('', '## Self-reported accuracy vs. real error', '');
+    lines.push('| Method | Reported accuracy | Samples | Height abs. error median / p90 / max (cm) | Weight abs. error median / p90 / max (kg) |');
+    lines.push('| --- | --- | --- | --- | --- |');
+    for (const method of report.methods) {
+        for (const group of method.byAccuracy) {
+            lines.push(`| ${method.method} | ${group.accuracy} | ${group.n} | ${spread(group.heightAbsError)} | ${spread(group.weightAbsError)} |`);
+        }
+    }
+
+    const failures = report.samples.filter(s => s.error);
+    if (failures.length > 0) {
+        lines.push('', '## Failed samples', '');
+        for (const sample of failures) {
+            lines.push(`- \`${sample.id}\` (${sample.method}): ${sample.error}`);
+        }
+    }
+
+    return lines.join('\n') + '\n';
+}
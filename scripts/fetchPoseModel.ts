@@ -0,0 +1,46 @@
+/**
+ * Downloads the pose landmark model behind the camera's framing guidance into `public/models`,
+ * so the app serves it from its own origin and needs no network for it at runtime.
+ *
+ *   npm run fetch-pose-model [-- --force]
+ *
+ * An existing copy is kept unless `--force` is given. It also runs before every `npm run build`,
+ * so a build fails rather than shipping without the model. In development the camera still works
+ * without it, just without live framing checks.
+ */
+import { mkdir, stat, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+
+const MODEL_URL = 'https://storage.googleapis.com/mediapipe-models/pose_landmarker/pose_landmarker_lite/float16/1/pose_landmarker_lite.task';
+// Must match POSE_MODEL_PATH in services/poseDetector.ts.
+const MODEL_FILE = path.join('public', 'models', 'pose_landmarker_lite.task');
+
+async function exists(file: string): Promise<boolean> {
+    try {
+        return (await stat(file)).size > 0;
+    } catch {
+        return false;
+    }
+}
+
+async function main() {
+    const { values } = parseArgs({ options: { force: { type: 'boolean', default: false } } });
+    if (!values.force && await exists(MODEL_FILE)) {
+        console.log(`${MODEL_FILE} already exists; pass --force to download it again.`);
+        return;
+    }
+    const response = await fetch(MODEL_URL);
+    if (!response.ok) {
+        throw new Error(`Model download failed: ${response.status} ${response.statusText}`);
+    }
+    const model = Buffer.from(await response.arrayBuffer());
+    await mkdir(path.dirname(MODEL_FILE), { recursive: true });
+    await writeFile(MODEL_FILE, model);
+    console.log(`Saved ${MODEL_FILE} (${(model.length / 1024 / 1024).toFixed(1)} MB).`);
+}
+
+main().catch(err => {
+    console.error(err);
+    process.exit(1);
+});
@@ -0,0 +1,198 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import type { CaptureMethod, CaptureView } from '../types';
+import type { EstimationImage, EstimationProvider, EstimationRequest } from '../services/estimationProvider';
+import { sanitizeBoundingBox } from '../utils/landmarks';
+import { sanitizeReferenceObject } from '../utils/referenceObjects';
+import { MAX_HEIGHT_CM, MIN_HEIGHT_CM } from '../utils/units';
+import { createRateLimiter, type RateLimitOptions } from './rateLimiter';
+
+export interface AnalyzeServerOptions {
+    provider: EstimationProvider;
+    rateLimit?: RateLimitOptions;
+    /** Largest accepted request body in bytes. Base64 inflates images by a third. */
+    maxBodyBytes?: number;
+    maxImages?: number;
+    /** Use the first X-Forwarded-For address as the client IP. Only enable behind a trusted proxy. */
+    trustProxy?: boolean;
+}
+
+const DEFAULT_RATE_LIMIT: RateLimitOptions = { limit: 10, windowMs: 60_000 };
+const DEFAULT_MAX_BODY_BYTES = 12 * 1024 * 1024;
+const DEFAULT_MAX_IMAGES = 3;
+
+const METHODS: CaptureMethod[] = ['paper', 'pose', 'environment'];
+const VIEWS: CaptureView[] = ['front', 'side', 'back'];
+const MIME_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+    res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+    res.end(JSON.stringify(body));
+};
+
+const readBody = (req: IncomingMessage, maxBytes: number): Promise<string | null> => {
+    return new Promise((resolve, reject) => {
+        const chunks: Buffer[] = [];
+        let size = 0;
+        let tooLarge = false;
+        req.on('data', (chunk: Buffer) => {
+            size += chunk.length;
+            if (size > maxBytes) {
+                // Keep draining so the client can read our 413 instead of a reset connection.
+                tooLarge = true;
+                chunks.length = 0;
+                return;
+            }
+            if (!tooLarge) chunks.push(chunk);
+        });
+        req.on('end', () => resolve(tooLarge ? null : Buffer.concat(chunks).toString('utf8')));
+        req.on('error', reject);
+    });
+};
+
+/** Checks an untrusted request body and returns either a well-formed request or a message for the client. */
+export function parseEstimationRequest(body: unknown, maxImages: number = DEFAULT_MAX_IMAGES): { request: EstimationRequest } | { error: string } {
+    if (typeof body !== 'object' || body === null) {
+        return { error: 'Request body must be a JSON object.' };
+    }
+    const { images, method, reference, knownHeightCm, subjectBox } = body as Record<string, unknown>;
+
+    if (!METHODS.includes(method as CaptureMethod)) {
+        return { error: `'method' must be one of: ${METHODS.join(', ')}.` };
+    }
+    if (!Array.isArray(images) || images.length === 0 || images.length > maxImages) {
+        return { error: `'images' must contain between 1 and ${maxImages} images.` };
+    }
+    const parsedImages: EstimationImage[] = [];
+    for (const image of images as Record<string, unknown>[]) {
+        if (typeof image?.base64Image !== 'string' || image.base64Image.length === 0) {
+            return { error: 'Every image needs a non-empty base64Image.' };
+        }
+        if (!MIME_TYPES.includes(image.mimeType as string)) {
+            return { error: `Unsupported image type. Use one of: ${MIME_TYPES.join(', ')}.` };
+        }
+        if (!VIEWS.includes(image.view as CaptureView)) {
+            return { error: `'view' must be one of: ${VIEWS.join(', ')}.` };
+        }
+        parsedImages.push({ base64Image: image.base64Image, mimeType: image.mimeType as string, view: image.view as CaptureView });
+    }
+    if (knownHeightCm !== undefined && (typeof knownHeightCm !== 'number' || !(knownHeightCm >= MIN_HEIGHT_CM && knownHeightCm <= MAX_HEIGHT_CM))) {
+        return { error: `'knownHeightCm' must be a number between ${MIN_HEIGHT_CM} and ${MAX_HEIGHT_CM}.` };
+    }
+    const parsedReference = reference === undefined ? undefined : sanitizeReferenceObject(reference);
+    if (reference !== undefined && (!parsedReference || method !== 'paper')) {
+        return { error: "'reference' must be a known reference object with a plausible size, and needs method 'paper'." };
+    }
+    const parsedSubjectBox = subjectBox === undefined ? undefined : sanitizeBoundingBox(subjectBox);
+    if (subjectBox !== undefined && !parsedSubjectBox) {
+        return { error: "'subjectBox' must be a box with x, y, width and height inside the image." };
+    }
+
+    return {
+        request: {
+            images: parsedImages,
+            method: method as CaptureMethod,
+            reference: parsedReference,
+            knownHeightCm: knownHeightCm as number | undefined,
+            subjectBox: parsedSubjectBox,
+        },
+    };
+}
+
+const getClientIp = (req: IncomingMessage, trustProxy: boolean): string => {
+    if (trustProxy) {
+        const forwarded = req.headers['x-forwarded-for'];
+        const first = (Array.isArray(forwarded) ? forwarded[0] : forwarded)?.split(',')[0]?.trim();
+        if (first) return first;
+    }
+    return req.socket.remoteAddress ?? 'unknown';
+};
+
+/**
+ * HTTP server exposing `POST /api/analyze`. It owns the model credentials, so the browser
+ * bundle never sees them, and forwards the provider's raw response to the client.
+ */
+export function createAnalyzeServer(options: AnalyzeServerOptions): Server {
+    const {
+        provider,
+        rateLimit = DEFAULT_RATE_LIMIT,
+        maxBodyBytes = DEFAULT_MAX_BODY_BYTES,
+        maxImages = DEFAULT_MAX_IMAGES,
+        trustProxy = false,
+    } = options;
+    const limiter = createRateLimiter(rateLimit);
+
+    return createServer(async (req, res) => {
+        const url = new URL(req.url ?? '/', 'http://localhost');
+        if (url.pathname !== '/api/analyze') {
+            sendJson(res, 404, { error: 'Not found.' });
+            return;
+        }
+        if (req.method !== 'POST') {
+            sendJson(res, 405, { error: 'Method not allowed.' }, { Allow: 'POST' });
+            return;
+        }
+
+        const decision = limiter.check(getClientIp(req, trustProxy));
+        if (!decision.allowed) {
+            sendJson(res, 429, { error: 'Too many requests. Please wait a moment and try again.' }, { 'Retry-After': String(decision.retryAfterSeconds) });
+            return;
+        }
+
+        const declaredLength = Number(req.headers['content-length'] ?? 0);
+        if (declaredLength > maxBodyBytes) {
+            sendJson(res, 413, { error: 'The image is too large.' }, { Connection: 'close' });
+            req.destroy();
+            return;
+        }
+
+        let rawBody: string | null;
+        try {
+            rawBody = await readBody(req, maxBodyBytes);
+        } catch (err) {
+            console.error('Failed to read request body:', err);
+            sendJson(res, 400, { error: 'Could not read the request body.' });
+            return;
+        }
+        if (rawBody === null) {
+            sendJson(res, 413, { error: 'The image is too large.' });
+            return;
+        }
+
+        let body: unknown;
+        try {
+            body = JSON.parse(rawBody);
+        } catch {
+            sendJson(res, 400, { error: 'Request body must be valid JSON.' });
+            return;
+        }
+        const parsed = parseEstimationRequest(body, maxImages);
+        if ('error' in parsed) {
+            sendJson(res, 400, { error: parsed.error });
+            return;
+        }
+
+        // A client that gives up (cancel, timeout before a retry) shouldn't leave a billed model call running.
+        // The request's own 'close' fires once its body is read, so only the response's tells a disconnect.
+        const controller = new AbortController();
+        res.on('close', () => {
+            if (!res.writableFinished) controller.abort();
+        });
+
+        try {
+            const response = await provider.estimate(parsed.request, controller.signal);
+            sendJson(res, 200, response);
+        } catch (err) {
+            if (controller.signal.aborted) {
+                console.warn(`Client disconnected; cancelled the "${provider.name}" request.`);
+                return;
+            }
+            console.error(`Estimation provider "${provider.name}" failed:`, err);
+            // Pass an exhausted model quota through as 429 so the client can tell it apart from an outage.
+            if ((err as { status?: unknown }).status === 429) {
+                sendJson(res, 429, { error: 'The analysis model quota is exhausted. Please try again later.' });
+                return;
+            }
+            sendJson(res, 502, { error: 'The analysis model could not be reached.' });
+        }
+    });
+}
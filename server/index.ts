@@ -0,0 +1,31 @@
+import { createAnalyzeServer } from './app';
+import { createGeminiProvider } from '../services/geminiService';
+import { createMockProvider } from '../services/mockProvider';
+
+// Share .env.local with the Vite dev server. Real deployments set the variables directly.
+try {
+    process.loadEnvFile('.env.local');
+} catch {
+    // No env file; rely on the process environment.
+}
+
+const port = Number(process.env.PORT ?? 8787);
+
+// ESTIMATION_PROVIDER=mock runs the server against the offline stub, no API key required.
+const provider = process.env.ESTIMATION_PROVIDER === 'mock'
+    ? createMockProvider()
+    : createGeminiProvider(process.env.GEMINI_API_KEY ?? process.env.API_KEY);
+
+const server = createAnalyzeServer({
+    provider,
+    rateLimit: {
+        limit: Number(process.env.RATE_LIMIT_PER_MINUTE ?? 10),
+        windowMs: 60_000,
+    },
+    maxBodyBytes: Number(process.env.MAX_BODY_BYTES ?? 12 * 1024 * 1024),
+    trustProxy: process.env.TRUST_PROXY === '1',
+});
+
+server.listen(port, () => {
+    console.log(`Analysis server (${provider.name}) listening on http://localhost:${port}`);
+});
@@ -0,0 +1,48 @@
+export interface RateLimitOptions {
+    /** Requests allowed per client within one window. */
+    limit: number;
+    windowMs: number;
+}
+
+export interface RateLimitDecision {
+    allowed: boolean;
+    remaining: number;
+    /** Seconds until the client's window resets. */
+    retryAfterSeconds: number;
+}
+
+/**
+ * Fixed-window limiter keyed by client IP. State is in memory, which is fine for the
+ * single-process server this app ships with.
+ */
+export function createRateLimiter({ limit, windowMs }: RateLimitOptions, now: () => number = Date.now) {
+    const windows = new Map<string, { start: number; count: number }>();
+
+    const prune = (time: number) => {
+        for (const [key, window] of windows) {
+            if (time - window.start >= windowMs) {
+                windows.delete(key);
+            }
+        }
+    };
+
+    return {
+        check(key: string): RateLimitDecision {
+            const time = now();
+            let window = windows.get(key);
+            if (!window || time - window.start >= windowMs) {
+                // Opportunistic cleanup keeps the map from growing with one-off clients.
+                if (windows.size > 1000) prune(time);
+                window = { start: time, count: 0 };
+                windows.set(key, window);
+            }
+
+            const retryAfterSeconds = Math.ceil((window.start + windowMs - time) / 1000);
+            if (window.count >= limit) {
+                return { allowed: false, remaining: 0, retryAfterSeconds };
+            }
+            window.count++;
+            return { allowed: true, remaining: limit - window.count, retryAfterSeconds };
+        },
+    };
+}
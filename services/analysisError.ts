@@ -0,0 +1,69 @@
+import type { BoundingBox } from '../types';
+import { NETWORK_ERROR_NAME, TIMEOUT_ERROR_NAME } from './retry';
+
+export type AnalysisErrorCode =
+    | 'no_person'
+    | 'child_detected'
+    | 'image_unclear'
+    | 'multiple_people'
+    | 'network'
+    | 'quota'
+    | 'invalid_response'
+    | 'timeout';
+
+const defaultMessages: Record<AnalysisErrorCode, string> = {
+    no_person: "The AI couldn't find a person in the image. Please try a photo with a clear view of one adult.",
+    child_detected: 'This analysis is for adults only. The person in the image appears to be a child.',
+    image_unclear: 'The image is too blurry or unclear for an accurate analysis. Please try a higher-quality photo.',
+    multiple_people: 'The AI found more than one person in the image. Please take a photo with only the person being measured.',
+    network: 'The analysis service could not be reached. Please check your connection and try again.',
+    quota: 'The analysis service is busy right now. Please wait a minute and try again.',
+    invalid_response: 'The AI returned a response that could not be used. Please try again or use a different image.',
+    timeout: 'The analysis timed out. Please check your connection and try again.',
+};
+
+/** Short, human-readable ID shown to the user and logged with the error, so a report can be matched to the logs. */
+export const createDiagnosticId = () =>
+    `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`.toUpperCase();
+
+export class AnalysisError extends Error {
+    readonly code: AnalysisErrorCode;
+    readonly diagnosticId: string;
+    /** For 'multiple_people': everyone the model found, so the user can pick the subject. */
+    readonly people: BoundingBox[];
+
+    constructor(code: AnalysisErrorCode, options: { message?: string; cause?: unknown; people?: BoundingBox[] } = {}) {
+        super(options.message ?? defaultMessages[code], { cause: options.cause });
+        this.name = 'AnalysisError';
+        this.code = code;
+        this.diagnosticId = createDiagnosticId();
+        this.people = options.people ?? [];
+    }
+}
+
+/** Maps the model's `reason` for an unsuccessful analysis to an error code. */
+export function codeForReason(reason: string | undefined): AnalysisErrorCode {
+    switch (reason) {
+        case 'no_person_detected':
+            return 'no_person';
+        case 'child_detected':
+            return 'child_detected';
+        case 'multiple_people':
+            return 'multiple_people';
+        default:
+            return 'image_unclear';
+    }
+}
+
+/** Classifies a provider or transport failure. Errors that are already typed pass through unchanged. */
+export function toAnalysisError(error: unknown): AnalysisError {
+    if (error instanceof AnalysisError) return error;
+    if (error instanceof Error) {
+        if (error.name === TIMEOUT_ERROR_NAME) return new AnalysisError('timeout', { cause: error });
+        if (error.name === NETWORK_ERROR_NAME) return new AnalysisError('network', { cause: error });
+        const status = (error as Error & { status?: unknown }).status;
+        if (status === 429) return new AnalysisError('quota', { cause: error });
+        if (typeof status === 'number' && (status === 408 || status >= 500)) return new AnalysisError('network', { cause: error });
+    }
+    return new AnalysisError('invalid_response', { cause: error });
+}
@@ -0,0 +1,193 @@
+import type { BoundingBox, CaptureMethod, CapturedImage, GeminiAnalysisResponse, MetricsEstimate, ReferenceObject } from '../types';
+import { computeViewAgreement, sanitizeViewEstimates } from '../utils/viewAgreement';
+import { exactRange, resolveRange } from '../utils/uncertainty';
+import { sanitizeLandmarks, sanitizePeople } from '../utils/landmarks';
+import { sanitizeCircumferences } from '../utils/bodyMetrics';
+import { aggregateFrameEstimates } from '../utils/frameAggregation';
+import type { EstimationProvider } from './estimationProvider';
+import { DEFAULT_RETRY_OPTIONS, isAbortError, withRetry, type RetryOptions } from './retry';
+import { AnalysisError, codeForReason, toAnalysisError } from './analysisError';
+import { createMockProvider } from './mockProvider';
+import { createProxyProvider } from './proxyProvider';
+import { computeCacheKey, readCachedResponse, writeCachedResponse } from './responseCache';
+
+let activeProvider: EstimationProvider | null = null;
+
+function createDefaultProvider(): EstimationProvider {
+    switch (process.env.ESTIMATION_PROVIDER) {
+        case 'mock':
+            return createMockProvider();
+        case 'proxy':
+        case undefined:
+        case '':
+            // The Gemini key stays on the analysis server (see server/); the browser only talks to it.
+            return createProxyProvider(process.env.ANALYSIS_API_URL || undefined);
+        default:
+            throw new Error(`Unknown ESTIMATION_PROVIDER "${process.env.ESTIMATION_PROVIDER}". Use 'proxy' or 'mock'.`);
+    }
+}
+
+/** The provider is created on first use, so a misconfiguration surfaces as an analysis error instead of a blank page. */
+export function getEstimationProvider(): EstimationProvider {
+    if (!activeProvider) {
+        activeProvider = createDefaultProvider();
+    }
+    return activeProvider;
+}
+
+export function setEstimationProvider(provider: EstimationProvider | null): void {
+    activeProvider = provider;
+}
+
+export interface AnalysisOptions {
+    method: CaptureMethod;
+    /** The reference object the user picked; only used with the 'paper' method. */
+    reference?: ReferenceObject;
+    knownHeightCm?: number | null;
+    /** The person to measure when the photo shows several adults, as picked by the user. */
+    subjectBox?: BoundingBox;
+    /** Aborting rejects with an `AbortError` and cancels the request in flight. */
+    signal?: AbortSignal;
+    /** Called before each attempt, so the UI can show retries. */
+    onAttempt?: (attempt: number, maxAttempts: number) => void;
+    retry?: Partial<Omit<RetryOptions, 'signal' | 'onAttempt'>>;
+    /** Reuse an earlier response for identical input instead of calling the provider again. Browser only. */
+    useCache?: boolean;
+}
+
+// The cache only saves money; when IndexedDB or WebCrypto misbehave, analyze as if it were empty.
+async function tryCache<T>(operation: () => Promise<T>): Promise<T | undefined> {
+    try {
+        return await operation();
+    } catch (err) {
+        console.warn('Response cache unavailable:', err);
+        return undefined;
+    }
+}
+
+/**
+ * Analyzes one or more views of the same person and returns a single fused estimate.
+ * Failures reject with an `AnalysisError`, except cancellation, which rejects with the original `AbortError`.
+ */
+export async function analyzeImageForMetrics(images: CapturedImage[], options: AnalysisOptions): Promise<MetricsEstimate> {
+    const provider = getEstimationProvider();
+    const knownHeightCm = options.knownHeightCm ?? undefined;
+
+    try {
+        const request = {
+            images: images.map(({ view, base64Image, mimeType }) => ({ view, base64Image, mimeType })),
+            method: options.method,
+            reference: options.method === 'paper' ? options.reference : undefined,
+            knownHeightCm,
+            subjectBox: options.subjectBox,
+        };
+        const cacheKey = options.useCache ? await tryCache(() => computeCacheKey(request)) : undefined;
+        const cached = cacheKey ? await tryCache(() => readCachedResponse(cacheKey)) : undefined;
+        const data: GeminiAnalysisResponse = cached?.response ?? await withRetry(
+            signal => provider.estimate(request, signal),
+            { ...DEFAULT_RETRY_OPTIONS, ...options.retry, signal: options.signal, onAttempt: options.onAttempt },
+        );
+
+        if (typeof data.analysisSuccess !== 'boolean' || typeof data.heightCm !== 'number' || typeof data.weightKg !== 'number' || typeof data.accuracy !== 'string') {
+            throw new AnalysisError('invalid_response', { cause: new Error('Invalid data types in API response.') });
+        }
+
+        if (!data.analysisSuccess) {
+            throw new AnalysisError(codeForReason(data.reason), { people: sanitizePeople(data.people) });
+        }
+        
+        // The model is told the height is fixed, but don't trust it to echo it back unchanged.
+        const heightCm = knownHeightCm ?? data.heightCm;
+
+        if (heightCm <= 0 || data.weightKg <= 0) {
+             throw new AnalysisError('invalid_response', { message: "The AI returned invalid metric values. Please try a different image." });
+        }
+
+        const estimate: MetricsEstimate = {
+            heightCm,
+            weightKg: data.weightKg,
+            heightRangeCm: knownHeightCm
+                ? exactRange(knownHeightCm)
+                : resolveRange(heightCm, data.heightCmLower, data.heightCmUpper, data.accuracy, 'height'),
+            weightRangeKg: resolveRange(data.weightKg, data.weightKgLower, data.weightKgUpper, data.accuracy, 'weight'),
+            accuracy: data.accuracy,
+            heightSource: knownHeightCm ? 'user' : 'estimated',
+            landmarks: sanitizeLandmarks(data.landmarks),
+            circumferences: sanitizeCircumferences(data),
+            subjectBox: options.subjectBox,
+            cachedAt: cached?.storedAt,
+        };
+
+        if (images.length > 1) {
+            const viewEstimates = sanitizeViewEstimates(data.viewEstimates);
+            estimate.viewEstimates = viewEstimates;
+            estimate.viewAgreement = computeViewAgreement(viewEstimates, heightCm, data.weightKg);
+        }
+
+        // Only responses that produced a valid estimate are worth keeping.
+        if (cacheKey && !cached) {
+            await tryCache(() => writeCachedResponse(cacheKey, data));
+        }
+
+        return estimate;
+
+    } catch (error) {
+        if (isAbortError(error)) {
+            throw error;
+        }
+        const analysisError = toAnalysisError(error);
+        console.error(`Error in estimation provider "${provider.name}" [${analysisError.code}, diagnostic ID ${analysisError.diagnosticId}]:`, error);
+        throw analysisError;
+    }
+}
+
+export interface FrameAnalysisOptions extends AnalysisOptions {
+    /** Frames analyzed at the same time, so a sequence doesn't trip the analysis server's rate limit. */
+    concurrency?: number;
+    /** Called whenever a frame finishes, whether it succeeded or not. */
+    onFrameDone?: (done: number, total: number) => void;
+    /** The subject's box in each frame, for a subject who moves between frames. Overrides `subjectBox`. */
+    subjectBoxes?: BoundingBox[];
+}
+
+export const DEFAULT_FRAME_CONCURRENCY = 2;
+
+/**
+ * Analyzes the frames of a sequence sampled from the live camera one by one and combines them into a single robust estimate.
+ * Frames that fail are skipped; it only rejects when no frame succeeds, with the first frame's error.
+ * `representativeIndex` is the frame whose landmarks the estimate carries.
+ */
+export async function analyzeFramesForMetrics(frames: CapturedImage[], options: FrameAnalysisOptions): Promise<{ estimate: MetricsEstimate; representativeIndex: number }> {
+    const { concurrency = DEFAULT_FRAME_CONCURRENCY, onFrameDone, subjectBoxes, ...frameOptions } = options;
+    const estimates: (MetricsEstimate | undefined)[] = new Array(frames.length);
+    // By frame index rather than completion order, so the error reported is always the first frame's.
+    const errors: unknown[] = new Array(frames.length);
+    let next = 0;
+    let done = 0;
+
+    const worker = async () => {
+        while (next < frames.length) {
+            const index = next++;
+            try {
+                // Per-frame retries would make the attempt counter jump around; progress is reported per frame instead.
+                estimates[index] = await analyzeImageForMetrics([frames[index]], {
+                    ...frameOptions,
+                    subjectBox: subjectBoxes?.[index] ?? frameOptions.subjectBox,
+                    onAttempt: undefined,
+                });
+            } catch (error) {
+                if (isAbortError(error)) throw error;
+                errors[index] = error;
+            }
+            onFrameDone?.(++done, frames.length);
+        }
+    };
+    await Promise.all(Array.from({ length: Math.min(concurrency, frames.length) }, worker));
+
+    const succeeded = estimates.flatMap((estimate, index) => estimate ? [{ estimate, index }] : []);
+    if (succeeded.length === 0) {
+        throw errors[0] ?? new AnalysisError('invalid_response');
+    }
+    const { estimate, representativeIndex } = aggregateFrameEstimates(succeeded.map(s => s.estimate));
+    return { estimate, representativeIndex: succeeded[representativeIndex].index };
+}
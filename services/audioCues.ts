@@ -0,0 +1,40 @@
+let audioContext: AudioContext | null = null;
+
+/** Browsers only start audio after a user gesture, so call this from a click handler before relying on cues. */
+export function unlockAudio(): void {
+    if (typeof AudioContext === 'undefined') return;
+    audioContext ??= new AudioContext();
+    if (audioContext.state === 'suspended') {
+        audioContext.resume().catch(err => console.warn('Could not start audio:', err));
+    }
+}
+
+/** A short tick for each second of a countdown; `final` is the longer, higher tone at the moment of capture. */
+export function beep(final = false): void {
+    if (!audioContext || audioContext.state !== 'running') return;
+    const oscillator = audioContext.createOscillator();
+    const gain = audioContext.createGain();
+    const now = audioContext.currentTime;
+    const duration = final ? 0.35 : 0.12;
+    oscillator.frequency.value = final ? 1320 : 880;
+    gain.gain.setValueAtTime(0.2, now);
+    gain.gain.exponentialRampToValueAtTime(0.001, now + duration);
+    oscillator.connect(gain).connect(audioContext.destination);
+    oscillator.start(now);
+    oscillator.stop(now + duration);
+}
+
+const canSpeak = () => typeof window !== 'undefined' && 'speechSynthesis' in window;
+
+/** Speaks a short prompt, cutting off whatever was still being said. Silently does nothing without speech synthesis. */
+export function speak(text: string): void {
+    if (!canSpeak()) return;
+    window.speechSynthesis.cancel();
+    window.speechSynthesis.speak(new SpeechSynthesisUtterance(text));
+}
+
+export function stopSpeaking(): void {
+    if (canSpeak()) {
+        window.speechSynthesis.cancel();
+    }
+}
@@ -0,0 +1,39 @@
+import type { CameraResolution } from '../types';
+
+export interface CameraPreferences {
+    /** The camera picked last time. Device IDs are stable per site, so this survives reloads. */
+    deviceId?: string;
+    resolution: CameraResolution;
+}
+
+export const CAMERA_RESOLUTIONS: Record<CameraResolution, { label: string; width?: number; height?: number }> = {
+    auto: { label: 'Auto' },
+    hd: { label: '720p', width: 1280, height: 720 },
+    full_hd: { label: '1080p', width: 1920, height: 1080 },
+    uhd: { label: '4K', width: 3840, height: 2160 },
+};
+
+const CAMERA_KEY = 'body-metrics-vision:camera';
+
+const DEFAULT_CAMERA_PREFERENCES: CameraPreferences = { resolution: 'auto' };
+
+export function loadCameraPreferences(): CameraPreferences {
+    try {
+        const stored = JSON.parse(localStorage.getItem(CAMERA_KEY) ?? '{}') as Partial<CameraPreferences>;
+        return {
+            deviceId: typeof stored.deviceId === 'string' && stored.deviceId ? stored.deviceId : undefined,
+            resolution: stored.resolution && stored.resolution in CAMERA_RESOLUTIONS ? stored.resolution : DEFAULT_CAMERA_PREFERENCES.resolution,
+        };
+    } catch (err) {
+        console.warn('Could not read camera preferences, using defaults:', err);
+        return DEFAULT_CAMERA_PREFERENCES;
+    }
+}
+
+export function saveCameraPreferences(preferences: CameraPreferences): void {
+    try {
+        localStorage.setItem(CAMERA_KEY, JSON.stringify(preferences));
+    } catch (err) {
+        console.warn('Could not save camera preferences:', err);
+    }
+}
@@ -0,0 +1,57 @@
+const DB_NAME = 'body-metrics-vision';
+const DB_VERSION = 2;
+
+export const MEASUREMENTS_STORE = 'measurements';
+export const RESPONSE_CACHE_STORE = 'responseCache';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function openDatabase(): Promise<IDBDatabase> {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            if (typeof indexedDB === 'undefined') {
+                reject(new Error('IndexedDB is not available in this browser.'));
+                return;
+            }
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(MEASUREMENTS_STORE)) {
+                    const store = db.createObjectStore(MEASUREMENTS_STORE, { keyPath: 'id' });
+                    store.createIndex('timestamp', 'timestamp');
+                }
+                if (!db.objectStoreNames.contains(RESPONSE_CACHE_STORE)) {
+                    const store = db.createObjectStore(RESPONSE_CACHE_STORE, { keyPath: 'key' });
+                    store.createIndex('storedAt', 'storedAt');
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+        // Allow a later call to retry if opening failed (e.g. private mode).
+        dbPromise.catch(() => { dbPromise = null; });
+    }
+    return dbPromise;
+}
+
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+/** Resolves once the transaction has committed, and rejects if it fails or is aborted. */
+export function transactionToPromise(transaction: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error ?? new DOMException('The transaction was aborted.', 'AbortError'));
+    });
+}
+
+export async function withStore<T>(storeName: string, mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const db = await openDatabase();
+    const transaction = db.transaction(storeName, mode);
+    return requestToPromise(run(transaction.objectStore(storeName)));
+}
@@ -0,0 +1,26 @@
+import type { BoundingBox, CaptureMethod, CapturedImage, GeminiAnalysisResponse, ReferenceObject } from '../types';
+
+export type EstimationImage = Pick<CapturedImage, 'view' | 'base64Image' | 'mimeType'>;
+
+export interface EstimationRequest {
+    /** One image per view of the same person, front view first. */
+    images: EstimationImage[];
+    method: CaptureMethod;
+    /** The object of known size in the photo, for the 'paper' method. Defaults to A4 paper when missing. */
+    reference?: ReferenceObject;
+    /** Height supplied by the user. When set, the provider only has to estimate weight. */
+    knownHeightCm?: number;
+    /** Measure only the person inside this box on the first image; set after the user picked a subject. */
+    subjectBox?: BoundingBox;
+}
+
+/**
+ * A backend that turns an image into a raw analysis response.
+ * Providers only talk to their model; validation and user-facing
+ * error messages live in `analysisService.ts` so every backend behaves the same.
+ */
+export interface EstimationProvider {
+    name: string;
+    /** Providers should stop work and reject when `signal` aborts. */
+    estimate: (request: EstimationRequest, signal?: AbortSignal) => Promise<GeminiAnalysisResponse>;
+}
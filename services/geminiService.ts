@@ -1,15 +1,33 @@
 import { GoogleGenAI, Type } from "@google/genai";
-import type { GeminiAnalysisResponse } from '../types';
+import type { CaptureView, GeminiAnalysisResponse, ReferenceObjectId } from '../types';
+import type { EstimationProvider, EstimationRequest } from './estimationProvider';
+import { DEFAULT_REFERENCE_OBJECT, formatReferenceSize, getReferenceObjectInfo } from '../utils/referenceObjects';
 
-const API_KEY = process.env.API_KEY;
+const DEFAULT_MODEL = 'gemini-2.5-flash';
 
-if (!API_KEY) {
-  throw new Error("API_KEY environment variable not set");
-}
+export { PROMPT_VERSION } from './promptVersion';
 
-const ai = new GoogleGenAI({ apiKey: API_KEY });
+const pointSchema = {
+    type: Type.OBJECT,
+    properties: {
+        x: { type: Type.NUMBER, description: "Horizontal position from 0 (left edge) to 1 (right edge)." },
+        y: { type: Type.NUMBER, description: "Vertical position from 0 (top edge) to 1 (bottom edge)." },
+    },
+    required: ["x", "y"]
+};
 
-const responseSchema = {
+const boxSchema = {
+    type: Type.OBJECT,
+    properties: {
+        x: { type: Type.NUMBER, description: "Left edge, from 0 (left of the image) to 1 (right)." },
+        y: { type: Type.NUMBER, description: "Top edge, from 0 (top of the image) to 1 (bottom)." },
+        width: { type: Type.NUMBER, description: "Width as a fraction of the image width." },
+        height: { type: Type.NUMBER, description: "Height as a fraction of the image height." },
+    },
+    required: ["x", "y", "width", "height"]
+};
+
+export const responseSchema = {
     type: Type.OBJECT,
     properties: {
         analysisSuccess: {
@@ -24,98 +42,184 @@ const responseSchema = {
             type: Type.NUMBER,
             description: "The estimated weight of the person in kilograms. Example: 72.3. Return 0 if analysis fails."
         },
+        heightCmLower: {
+            type: Type.NUMBER,
+            description: "Lower bound of a plausible range for the height in centimeters, reflecting how uncertain the estimate is. Return 0 if analysis fails."
+        },
+        heightCmUpper: {
+            type: Type.NUMBER,
+            description: "Upper bound of a plausible range for the height in centimeters. Return 0 if analysis fails."
+        },
+        weightKgLower: {
+            type: Type.NUMBER,
+            description: "Lower bound of a plausible range for the weight in kilograms, reflecting how uncertain the estimate is. Return 0 if analysis fails."
+        },
+        weightKgUpper: {
+            type: Type.NUMBER,
+            description: "Upper bound of a plausible range for the weight in kilograms. Return 0 if analysis fails."
+        },
         accuracy: {
             type: Type.STRING,
             description: "The accuracy level of the estimation. One of: 'high', 'medium', or 'low'."
         },
+        waistCm: {
+            type: Type.NUMBER,
+            description: "Estimated waist circumference at the level of the navel, in centimeters. Return 0 if it cannot be estimated."
+        },
+        hipCm: {
+            type: Type.NUMBER,
+            description: "Estimated hip circumference at the widest point of the buttocks, in centimeters. Return 0 if it cannot be estimated."
+        },
+        neckCm: {
+            type: Type.NUMBER,
+            description: "Estimated neck circumference just below the larynx, in centimeters. Return 0 if it cannot be estimated."
+        },
         reason: {
             type: Type.STRING,
-            description: "If analysisSuccess is false, provide a reason. One of: 'no_person_detected', 'child_detected', 'image_unclear'. This is optional if successful."
+            description: "If analysisSuccess is false, provide a reason. One of: 'no_person_detected', 'child_detected', 'image_unclear', 'multiple_people'. This is optional if successful."
+        },
+        people: {
+            type: Type.ARRAY,
+            description: "Every adult visible in the first image, including people in the background, each with a bounding box around their whole body.",
+            items: {
+                type: Type.OBJECT,
+                properties: { box: boxSchema },
+                required: ["box"]
+            }
+        },
+        landmarks: {
+            type: Type.OBJECT,
+            description: "Normalized image coordinates (0 to 1) of the keypoints you measured, on the first image.",
+            properties: {
+                headTop: { ...pointSchema, description: "The top of the person's head." },
+                feet: { type: Type.ARRAY, description: "The bottom of each foot where it meets the floor.", items: pointSchema },
+                fingertips: { type: Type.ARRAY, description: "Guided Pose only: the left and right fingertips of the outstretched arms.", items: pointSchema },
+                paperCorners: { type: Type.ARRAY, description: "Reference object only: the four corners of the reference object (paper, card, door or one floor tile), in order around its edge.", items: pointSchema },
+            }
+        },
+        viewEstimates: {
+            type: Type.ARRAY,
+            description: "Only when several images are provided: your estimate from each image on its own, in the order the images were given.",
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    view: { type: Type.STRING, description: "The view label of the image. One of: 'front', 'side', 'back'." },
+                    heightCm: { type: Type.NUMBER, description: "Height estimated from this image alone, in centimeters." },
+                    weightKg: { type: Type.NUMBER, description: "Weight estimated from this image alone, in kilograms." },
+                },
+                required: ["view", "heightCm", "weightKg"]
+            }
         }
     },
-    required: ["analysisSuccess", "heightCm", "weightKg", "accuracy"]
+    required: ["analysisSuccess", "heightCm", "weightKg", "heightCmLower", "heightCmUpper", "weightKgLower", "weightKgUpper", "accuracy"]
 };
 
+// Where each reference object is and how to read it; the size is filled in from the request.
+const referenceDescriptions: Record<ReferenceObjectId, (size: string) => string> = {
+    a4_paper: size => `A sheet of A4 paper (${size}) IS present, lying flat on the floor near the person's feet.`,
+    us_letter: size => `A sheet of US Letter paper (${size}) IS present, lying flat on the floor near the person's feet.`,
+    id1_card: size => `The person holds an ID-1 card such as a bank card (${size}) flat against their chest, facing the camera with the long side horizontal.`,
+    interior_door: size => `The person stands right next to a closed interior door, in line with the door frame. The door is ${size}; door widths vary, so use only its height.`,
+    floor_tile: size => `The person stands on a floor of tiles that are each ${size}. Use the grout lines of the whole tiles around the feet, correcting for perspective.`,
+    companion: size => `A second adult, the companion, stands upright right next to the person at the same distance from the camera, on the LEFT side of the image. The companion is ${size}.`,
+};
 
-export async function analyzeImageForMetrics(base64Image: string, hasReference: boolean, estimationMethod: 'pose' | 'environment' | null): Promise<{ heightCm: number; weightKg: number; accuracy: 'high' | 'medium' | 'low' }> {
-    
-    const imagePart = {
-        inlineData: {
-            mimeType: 'image/jpeg',
-            data: base64Image,
-        },
-    };
+function getEstimationInstruction(request: EstimationRequest): string {
+    switch (request.method) {
+        case 'paper': {
+            const reference = request.reference ?? DEFAULT_REFERENCE_OBJECT;
+            const { accuracy } = getReferenceObjectInfo(reference.id);
+            return `${referenceDescriptions[reference.id](formatReferenceSize(reference))} You MUST use these exact dimensions as a precise scale to determine the person's height. Set 'accuracy' to '${accuracy}'. If the reference object is not visible, estimate from other cues in the scene and set 'accuracy' to 'low'.`;
+        }
+        case 'pose':
+            return `The user has taken this photo in a "Guided Pose". The person's arms are outstretched to their sides. You MUST use the principle that an adult's arm span (fingertip to fingertip) is approximately equal to their height. Measure the arm span to get a height estimate. Based on this reliable anatomical proportion, set 'accuracy' to 'medium'. If the pose is not clear or incorrect, fall back to the environmental estimation method and set accuracy to 'low'.`;
+        case 'environment':
+            return `You must estimate the person's height and weight without a dedicated reference object. Act as a photogrammetry expert. Analyze the scene for common objects to establish scale (e.g., door height ~203cm, light switch ~122cm from floor). Use these environmental cues to create a plausible scale. If usable cues are present, set 'accuracy' to 'medium'. If no reference objects are found, make a rough estimate based on visual cues and general human proportions and set 'accuracy' to 'low'.`;
+    }
+}
 
-    let estimationInstruction: string;
+function getKnownHeightInstruction(knownHeightCm: number): string {
+    return `The person's height is KNOWN and was provided by the user: ${knownHeightCm} cm. Treat this as a fixed fact. Do NOT estimate height; set 'heightCm' to exactly ${knownHeightCm}. Use the known height as the scale for the person's body proportions and estimate only their weight and body composition. If the full body is clearly visible, set 'accuracy' to 'medium'. If the body is partially hidden or obscured by loose clothing, set 'accuracy' to 'low'.`;
+}
 
-    if (hasReference) {
-        estimationInstruction = `A standard A4 or Letter size paper IS present on the floor near the person's feet. You MUST use it as a precise scale to determine the person's height. Set 'accuracy' to 'high'.`;
-    } else if (estimationMethod === 'pose') {
-        estimationInstruction = `The user has taken this photo in a "Guided Pose". The person's arms are outstretched to their sides. You MUST use the principle that an adult's arm span (fingertip to fingertip) is approximately equal to their height. Measure the arm span to get a height estimate. Based on this reliable anatomical proportion, set 'accuracy' to 'medium'. If the pose is not clear or incorrect, fall back to the environmental estimation method and set accuracy to 'low'.`;
-    } else { // 'environment'
-        estimationInstruction = `You must estimate the person's height and weight without a dedicated reference object. Act as a photogrammetry expert. Analyze the scene for common objects to establish scale (e.g., door height ~203cm, light switch ~122cm from floor). Use these environmental cues to create a plausible scale. If usable cues are present, set 'accuracy' to 'medium'. If no reference objects are found, make a rough estimate based on visual cues and general human proportions and set 'accuracy' to 'low'.`;
-    }
+const viewDescriptions: Record<CaptureView, string> = {
+    front: 'a FRONT view (the person faces the camera)',
+    side: 'a SIDE (profile) view (the person is turned 90 degrees)',
+    back: 'a BACK view (the person faces away from the camera)',
+};
 
+function getMultiViewInstruction(request: EstimationRequest): string {
+    const list = request.images
+        .map((image, index) => `Image ${index + 1} is ${viewDescriptions[image.view]}.`)
+        .join(' ');
+    return `You are given ${request.images.length} photos of the SAME person. ${list} Use the front view for height and body width, and the side view for body depth (chest, abdomen and seat), which is essential for an accurate weight. Fuse all views into ONE final 'heightCm' and 'weightKg'. In addition, fill 'viewEstimates' with the estimate you would give from each image on its own, so the agreement between views can be checked. If the images clearly show different people, set 'analysisSuccess' to false with reason 'image_unclear'.`;
+}
 
-    const textPart = {
-        text: `Your task is to estimate the height and weight of the person in the image. You MUST provide an estimate.
+export function buildAnalysisPrompt(request: EstimationRequest): string {
+    const estimationInstruction = request.knownHeightCm
+        ? getKnownHeightInstruction(request.knownHeightCm)
+        : getEstimationInstruction(request);
+    const task = request.knownHeightCm
+        ? 'estimate the weight of the person in the image, whose height is already known'
+        : 'estimate the height and weight of the person in the image';
+
+    const isMultiView = request.images.length > 1;
+    const reference = request.method === 'paper' ? request.reference ?? DEFAULT_REFERENCE_OBJECT : undefined;
+    // The companion is a second adult on purpose, so they must not count as a competing subject.
+    const hasCompanion = reference?.id === 'companion';
+    const identifyInstruction = request.subjectBox
+        ? `The user has chosen the person to measure: the adult inside the box x=${request.subjectBox.x.toFixed(3)}, y=${request.subjectBox.y.toFixed(3)}, width=${request.subjectBox.width.toFixed(3)}, height=${request.subjectBox.height.toFixed(3)} (normalized, from the top-left corner) on the first image. Measure ONLY this person${hasCompanion ? '; the adult standing next to them is the companion of known height' : ' and ignore everyone else'}${isMultiView ? '; in the other images, measure the same person' : ''}. Do not fail with 'multiple_people'. If the box contains no person or a child, set 'analysisSuccess' to false and provide a reason.`
+        : hasCompanion
+            ? `Two adults should be visible: the companion of known height on the LEFT and the person to measure next to them. List every adult you can see in 'people' and measure the one who is NOT the companion. If more than two adults are visible or you cannot tell which one is the companion, set 'analysisSuccess' to false with reason 'multiple_people' so the user can pick one. If no person is found, the image is unclear, or the person is a child, set 'analysisSuccess' to false and provide a reason.`
+            : `Find the adult person in the image and list every adult you can see in 'people'. If more than one adult could be the subject, set 'analysisSuccess' to false with reason 'multiple_people' so the user can pick one. If no person is found, the image is unclear, or the person is a child, set 'analysisSuccess' to false and provide a reason.`;
+
+    return `Your task is to ${task}. You MUST provide an estimate.
 
 Follow this process:
-1.  **Identify the person:** Find the adult person in the image. If no person is found, the image is unclear, or the person is a child, set 'analysisSuccess' to false and provide a reason.
-2.  **Estimate with scale:** ${estimationInstruction}
-3.  **Provide the result:** Respond with the JSON object containing your estimates.
+1.  **Identify the person:** ${identifyInstruction}
+2.  **Estimate with scale:** ${estimationInstruction}${isMultiView ? `
+3.  **Combine the views:** ${getMultiViewInstruction(request)}` : ''}
+${isMultiView ? 4 : 3}.  **Provide the result:** Respond with the JSON object containing your estimates.
 
 **RULES:**
 - You MUST ALWAYS return a valid JSON object matching the schema.
+- The lower and upper bounds must contain your point estimate and should be honest: widen them when the scale or the body outline is uncertain.${request.knownHeightCm ? ` Since the height is known, set both height bounds to ${request.knownHeightCm}.` : ''}
 - 'analysisSuccess' should be 'true' as long as you can provide any estimate (high, medium, or low accuracy).
-- Only set 'analysisSuccess' to 'false' for the specific failure reasons: 'no_person_detected', 'child_detected', 'image_unclear'.`
-    };
-
-    try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: { parts: [imagePart, textPart] },
-            config: {
-                responseMimeType: 'application/json',
-                responseSchema: responseSchema,
-            }
-        });
-
-        const jsonText = response.text.trim();
-        const data: GeminiAnalysisResponse = JSON.parse(jsonText);
-
-        if (typeof data.analysisSuccess !== 'boolean' || typeof data.heightCm !== 'number' || typeof data.weightKg !== 'number' || typeof data.accuracy !== 'string') {
-            throw new Error('Invalid data types in API response.');
-        }
-
-        if (!data.analysisSuccess) {
-            switch (data.reason) {
-                case 'no_person_detected':
-                    throw new Error("The AI couldn't find a person in the image. Please try a photo with a clear view of one adult.");
-                case 'child_detected':
-                    throw new Error("This analysis is for adults only. The person in the image appears to be a child.");
-                case 'image_unclear':
-                    throw new Error("The image is too blurry or unclear for an accurate analysis. Please try a higher-quality photo.");
-                default:
-                    throw new Error("The AI was unable to analyze this image. Please try a different one.");
-            }
-        }
-        
-        if (data.heightCm <= 0 || data.weightKg <= 0) {
-             throw new Error("The AI returned invalid metric values. Please try a different image.");
-        }
-
-        return {
-            heightCm: data.heightCm,
-            weightKg: data.weightKg,
-            accuracy: data.accuracy,
-        };
+- In 'landmarks', report where you located the top of the head and the feet${request.method === 'pose' ? ', the fingertips of both hands' : ''}${reference && getReferenceObjectInfo(reference.id).hasCorners ? ', the four corners of the reference object' : ''}, as normalized coordinates on the first image, so the user can verify the measurement.
+- Estimate 'waistCm', 'hipCm' and 'neckCm' from the body outline using the same scale${isMultiView ? ', using the side view for body depth' : ''}. Return 0 for any circumference you cannot see, e.g. under loose clothing.
+- Only set 'analysisSuccess' to 'false' for the specific failure reasons: 'no_person_detected', 'child_detected', 'image_unclear', 'multiple_people'.`;
+}
 
-    } catch (error) {
-        console.error("Error in Gemini service:", error);
-        if (error instanceof Error && (error.message.startsWith("The AI") || error.message.startsWith("This analysis"))) {
-            throw error;
-        }
-        throw new Error("Failed to get a valid response from the AI model. Please check your connection and try again.");
+export function createGeminiProvider(apiKey: string | undefined, model: string = DEFAULT_MODEL): EstimationProvider {
+    if (!apiKey) {
+        throw new Error("API_KEY environment variable not set");
     }
-}
\ No newline at end of file
+
+    const ai = new GoogleGenAI({ apiKey });
+
+    return {
+        name: `gemini:${model}`,
+        estimate: async (request, signal) => {
+            const imageParts = request.images.map(image => ({
+                inlineData: {
+                    mimeType: image.mimeType,
+                    data: image.base64Image,
+                },
+            }));
+            const textPart = { text: buildAnalysisPrompt(request) };
+
+            const response = await ai.models.generateContent({
+                model,
+                contents: { parts: [...imageParts, textPart] },
+                config: {
+                    responseMimeType: 'application/json',
+                    responseSchema: responseSchema,
+                    abortSignal: signal,
+                }
+            });
+
+            const jsonText = (response.text ?? '').trim();
+            return JSON.parse(jsonText) as GeminiAnalysisResponse;
+        },
+    };
+}
@@ -0,0 +1,52 @@
+import type { HistoryEntry } from '../types';
+import { calculateBMI, getBmiCategory, getBmiScheme } from '../utils/bmi';
+import { createId } from '../utils/id';
+import { exactRange } from '../utils/uncertainty';
+import { MEASUREMENTS_STORE, openDatabase, transactionToPromise, withStore } from './db';
+
+/** One person's measurements, oldest first. Without a profile, lists the guest measurements. */
+export async function listHistory(profileId: string | undefined): Promise<HistoryEntry[]> {
+    const entries = await withStore<HistoryEntry[]>(MEASUREMENTS_STORE, 'readonly', store => store.index('timestamp').getAll());
+    return entries
+        .filter(entry => entry.profileId === profileId)
+        .sort((a, b) => a.timestamp - b.timestamp);
+}
+
+export async function addHistoryEntry(entry: Omit<HistoryEntry, 'id' | 'timestamp'>): Promise<HistoryEntry> {
+    const saved: HistoryEntry = { ...entry, id: createId(), timestamp: Date.now() };
+    await withStore(MEASUREMENTS_STORE, 'readwrite', store => store.add(saved));
+    return saved;
+}
+
+/**
+ * Saves edited height/weight and re-derives the BMI fields so the entry stays consistent.
+ * Edited values are treated as exact, so the uncertainty ranges collapse onto them.
+ */
+export async function updateHistoryEntry(entry: HistoryEntry): Promise<HistoryEntry> {
+    const bmi = calculateBMI(entry.heightCm, entry.weightKg);
+    const updated: HistoryEntry = {
+        ...entry,
+        bmi,
+        ...getBmiCategory(bmi, getBmiScheme(entry.bmiScheme)),
+        heightRangeCm: exactRange(entry.heightCm),
+        weightRangeKg: exactRange(entry.weightKg),
+        bmiRange: exactRange(bmi),
+    };
+    await withStore(MEASUREMENTS_STORE, 'readwrite', store => store.put(updated));
+    return updated;
+}
+
+export async function deleteHistoryEntry(id: string): Promise<void> {
+    await withStore(MEASUREMENTS_STORE, 'readwrite', store => store.delete(id));
+}
+
+/** Deletes every measurement of a profile in one transaction, so a failure leaves the history untouched. */
+export async function deleteProfileHistory(profileId: string): Promise<void> {
+    const ids = (await listHistory(profileId)).map(entry => entry.id);
+    const db = await openDatabase();
+    const transaction = db.transaction(MEASUREMENTS_STORE, 'readwrite');
+    const store = transaction.objectStore(MEASUREMENTS_STORE);
+    ids.forEach(id => store.delete(id));
+    // Done only once the deletes are committed; a successful request can still be rolled back by an abort.
+    await transactionToPromise(transaction);
+}
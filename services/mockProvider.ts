@@ -0,0 +1,131 @@
+import type { GeminiAnalysisResponse } from '../types';
+import type { EstimationProvider, EstimationRequest } from './estimationProvider';
+
+export interface MockFixture {
+    name: string;
+    matches: (request: EstimationRequest) => boolean;
+    respond: (request: EstimationRequest) => GeminiAnalysisResponse;
+}
+
+export interface MockProviderOptions {
+    /** Recorded model responses keyed by `fingerprintRequest(request)`. Checked before fixtures. */
+    recordings?: Record<string, GeminiAnalysisResponse>;
+    /** Rule-based fixtures, evaluated in order. The first match wins. */
+    fixtures?: MockFixture[];
+    /** Artificial delay so the loading step is visible during demos. */
+    latencyMs?: number;
+}
+
+// Anything smaller than this can't be a real photo, which makes it handy for demoing the failure path.
+const MIN_IMAGE_LENGTH = 2048;
+
+/** FNV-1a hash of the base64 payload. Stable across runs, not meant to be cryptographic. */
+export function fingerprintImage(base64Image: string): string {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < base64Image.length; i++) {
+        hash ^= base64Image.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+/** Multi-view requests are keyed by the fingerprints of all their images, in order. */
+export function fingerprintRequest(request: EstimationRequest): string {
+    return request.images.map(image => fingerprintImage(image.base64Image)).join('+');
+}
+
+const failure = (reason: string): GeminiAnalysisResponse => ({
+    analysisSuccess: false,
+    heightCm: 0,
+    weightKg: 0,
+    accuracy: 'low',
+    reason,
+});
+
+export const defaultFixtures: MockFixture[] = [
+    {
+        name: 'tiny-image',
+        matches: (request) => request.images.some(image => image.base64Image.length < MIN_IMAGE_LENGTH),
+        respond: () => failure('image_unclear'),
+    },
+    {
+        name: 'deterministic-estimate',
+        matches: () => true,
+        respond: (request) => {
+            // Derive plausible adult metrics from the image fingerprint so the same image always gives the same answer.
+            const seed = parseInt(fingerprintImage(request.images[0].base64Image), 16);
+            const heightCm = request.knownHeightCm ?? 155 + (seed % 400) / 10;
+            const bmi = 19 + ((seed >>> 12) % 110) / 10;
+            const weightKg = Math.round(bmi * (heightCm / 100) ** 2 * 10) / 10;
+            const accuracy = request.method === 'paper' ? 'high' : request.method === 'pose' ? 'medium' : 'low';
+            const heightMargin = request.knownHeightCm ? 0 : { high: 2, medium: 5, low: 9 }[accuracy];
+            const weightMargin = { high: 4, medium: 7, low: 11 }[accuracy];
+            const landmarks = {
+                headTop: { x: 0.5, y: 0.08 },
+                feet: [{ x: 0.45, y: 0.93 }, { x: 0.55, y: 0.93 }],
+                fingertips: request.method === 'pose' ? [{ x: 0.08, y: 0.33 }, { x: 0.92, y: 0.33 }] : [],
+                paperCorners: request.method === 'paper'
+                    ? [{ x: 0.62, y: 0.9 }, { x: 0.78, y: 0.9 }, { x: 0.8, y: 0.97 }, { x: 0.6, y: 0.97 }]
+                    : [],
+            };
+            // Rough proportions for an adult of this size, good enough to exercise the derived metrics.
+            const circumferences = {
+                waistCm: Math.round((heightCm * 0.35 + (bmi - 22) * 2.4) * 10) / 10,
+                hipCm: Math.round((heightCm * 0.55 + (bmi - 22) * 1.6) * 10) / 10,
+                neckCm: Math.round((heightCm * 0.21 + (bmi - 22) * 0.5) * 10) / 10,
+            };
+            const people = [{ box: { x: 0.3, y: 0.05, width: 0.4, height: 0.9 } }];
+            const bounds = {
+                heightCmLower: heightCm - heightMargin,
+                heightCmUpper: heightCm + heightMargin,
+                weightKgLower: Math.round((weightKg - weightMargin) * 10) / 10,
+                weightKgUpper: Math.round((weightKg + weightMargin) * 10) / 10,
+            };
+            if (request.images.length === 1) {
+                return { analysisSuccess: true, heightCm, weightKg, ...bounds, ...circumferences, accuracy, landmarks, people };
+            }
+            // Each extra view nudges the numbers a little so the agreement display has something to show.
+            const viewEstimates = request.images.map(image => {
+                const viewSeed = parseInt(fingerprintImage(image.base64Image), 16);
+                return {
+                    view: image.view,
+                    heightCm: Math.round((heightCm + ((viewSeed % 41) - 20) / 10) * 10) / 10,
+                    weightKg: Math.round((weightKg + (((viewSeed >>> 8) % 61) - 30) / 10) * 10) / 10,
+                };
+            });
+            return { analysisSuccess: true, heightCm, weightKg, ...bounds, ...circumferences, accuracy, landmarks, people, viewEstimates };
+        },
+    },
+];
+
+const delay = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+        clearTimeout(timer);
+        reject(new DOMException('The analysis was cancelled.', 'AbortError'));
+    }, { once: true });
+});
+
+export function createMockProvider(options: MockProviderOptions = {}): EstimationProvider {
+    const { recordings = {}, fixtures = defaultFixtures, latencyMs = 800 } = options;
+
+    return {
+        name: 'mock',
+        estimate: async (request, signal) => {
+            if (latencyMs > 0) {
+                await delay(latencyMs, signal);
+            }
+
+            const recorded = recordings[fingerprintRequest(request)];
+            if (recorded) {
+                return { ...recorded };
+            }
+
+            const fixture = fixtures.find(f => f.matches(request));
+            if (!fixture) {
+                throw new Error('No mock fixture matched the request.');
+            }
+            return fixture.respond(request);
+        },
+    };
+}
@@ -0,0 +1,118 @@
+import type { jsPDF } from 'jspdf';
+import { bmiGaugePosition, getBmiScheme } from '../utils/bmi';
+import { methodLabels, type ExportableResult } from '../utils/exportData';
+import { formatRange } from '../utils/uncertainty';
+
+const PAGE_MARGIN = 20;
+const CONTENT_WIDTH = 210 - 2 * PAGE_MARGIN; // A4 portrait, in mm
+
+const DISCLAIMER = 'The AI analysis provides an estimate for both height and weight and should not be considered medical advice. Accuracy depends heavily on image quality and the presence of a reference object. Consult a healthcare professional for health concerns.';
+
+const accuracyLabels: Record<ExportableResult['accuracy'], string> = {
+    high: 'High accuracy',
+    medium: 'Medium accuracy',
+    low: 'Low accuracy (rough estimate)',
+};
+
+function drawGauge(doc: jsPDF, result: ExportableResult, y: number): number {
+    const scheme = getBmiScheme(result.bmiScheme);
+    const segment = CONTENT_WIDTH / scheme.bands.length;
+    const xAt = (bmi: number) => PAGE_MARGIN + (bmiGaugePosition(bmi, scheme) / 100) * CONTENT_WIDTH;
+
+    scheme.bands.forEach((band, index) => {
+        doc.setFillColor(band.color);
+        doc.rect(PAGE_MARGIN + index * segment, y, segment, 4, 'F');
+        doc.setFontSize(7);
+        doc.setTextColor(90);
+        doc.text(band.category, PAGE_MARGIN + (index + 0.5) * segment, y + 8, { align: 'center' });
+        if (index > 0) {
+            doc.text(String(band.min), PAGE_MARGIN + index * segment, y - 1.5, { align: 'center' });
+        }
+    });
+
+    // Likely range as an outlined band, the point estimate as a marker above the bar.
+    doc.setDrawColor('#1e1e1e');
+    doc.setLineWidth(0.6);
+    doc.rect(xAt(result.bmiRange.lower), y - 0.5, Math.max(xAt(result.bmiRange.upper) - xAt(result.bmiRange.lower), 0.5), 5);
+    doc.setFillColor('#1e1e1e');
+    const x = xAt(result.bmi);
+    doc.triangle(x - 2, y - 4, x + 2, y - 4, x, y - 0.8, 'F');
+    return y + 14;
+}
+
+/** Builds a one-page A4 report. jsPDF is loaded on demand so it stays out of the main bundle. */
+export async function createPdfReport(result: ExportableResult): Promise<Blob> {
+    const { jsPDF } = await import('jspdf');
+    const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+    const scheme = getBmiScheme(result.bmiScheme);
+    let y = PAGE_MARGIN + 5;
+
+    doc.setFontSize(20);
+    doc.setTextColor(20);
+    doc.text('Body Metrics Vision report', PAGE_MARGIN, y);
+    y += 8;
+    doc.setFontSize(10);
+    doc.setTextColor(90);
+    doc.text(`${new Date(result.timestamp).toLocaleString()}  ·  ${methodLabels[result.method]}  ·  ${accuracyLabels[result.accuracy]}`, PAGE_MARGIN, y);
+    y += 14;
+
+    const rows: [string, string, string][] = [
+        ['Height', `${result.heightCm.toFixed(1)} cm`, result.heightSource === 'user' ? 'entered by you' : `likely ${formatRange(result.heightRangeCm, 0)} cm`],
+        ['Weight', `${result.weightKg.toFixed(1)} kg`, `likely ${formatRange(result.weightRangeKg)} kg`],
+        ['BMI', result.bmi.toFixed(1), `likely ${formatRange(result.bmiRange)}`],
+        ['Category', result.category, scheme.name],
+    ];
+    const { waistCm, hipCm, neckCm } = result.circumferences ?? {};
+    if (waistCm !== undefined) rows.push(['Waist', `${waistCm.toFixed(0)} cm`, 'estimated from the outline']);
+    if (hipCm !== undefined) rows.push(['Hips', `${hipCm.toFixed(0)} cm`, 'estimated from the outline']);
+    if (neckCm !== undefined) rows.push(['Neck', `${neckCm.toFixed(0)} cm`, 'estimated from the outline']);
+
+    for (const [label, value, detail] of rows) {
+        doc.setFontSize(11);
+        doc.setTextColor(90);
+        doc.text(label, PAGE_MARGIN, y);
+        doc.setFontSize(13);
+        doc.setTextColor(20);
+        doc.text(value, PAGE_MARGIN + 35, y);
+        doc.setFontSize(10);
+        doc.setTextColor(90);
+        doc.text(detail, PAGE_MARGIN + 85, y);
+        y += 8;
+    }
+    y += 10;
+
+    doc.setFontSize(12);
+    doc.setTextColor(20);
+    doc.text('BMI', PAGE_MARGIN, y);
+    y = drawGauge(doc, result, y + 8);
+
+    if (result.viewAgreement && result.viewEstimates) {
+        doc.setFontSize(10);
+        doc.setTextColor(90);
+        doc.text(
+            `${result.viewEstimates.length} views fused. Spread between views: ${result.viewAgreement.heightSpreadCm.toFixed(1)} cm height, ${result.viewAgreement.weightSpreadKg.toFixed(1)} kg weight.`,
+            PAGE_MARGIN, y,
+        );
+        y += 8;
+    }
+    if (result.frameConsistency) {
+        doc.setFontSize(10);
+        doc.setTextColor(90);
+        doc.text(
+            `Median of ${result.frameConsistency.usedFrames} of ${result.frameConsistency.analyzedFrames} video frames. Spread between frames: ${result.frameConsistency.heightSpreadCm.toFixed(1)} cm height, ${result.frameConsistency.weightSpreadKg.toFixed(1)} kg weight.`,
+            PAGE_MARGIN, y,
+        );
+        y += 8;
+    }
+    if (result.imageQuality) {
+        doc.setFontSize(10);
+        doc.setTextColor(90);
+        doc.text(`Image quality ${result.imageQuality.score}/100`, PAGE_MARGIN, y);
+    }
+
+    doc.setFontSize(8);
+    doc.setTextColor(120);
+    doc.text(doc.splitTextToSize(`Disclaimer: ${DISCLAIMER}`, CONTENT_WIDTH), PAGE_MARGIN, 297 - PAGE_MARGIN - 10);
+
+    return doc.output('blob');
+}
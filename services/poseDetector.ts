@@ -0,0 +1,57 @@
+// Bundled with the app rather than loaded from a CDN, so pose detection never touches the network at runtime.
+// Only the SIMD build is shipped; every browser with camera access in a secure context supports it.
+import wasmLoaderPath from '@mediapipe/tasks-vision/vision_wasm_internal.js?url';
+import wasmBinaryPath from '@mediapipe/tasks-vision/vision_wasm_internal.wasm?url';
+import type { Pose } from '../utils/framingChecks';
+
+/** Served from `public/models`; `npm run fetch-pose-model` downloads it there, and every build does so first. */
+export const POSE_MODEL_PATH = '/models/pose_landmarker_lite.task';
+
+/** The subject plus one companion of known height. */
+const MAX_POSES = 2;
+
+export interface PoseDetector {
+    /**
+     * Finds everyone in the current video frame, or in a still frame of a sequence.
+     * Synchronous and fast enough to run several times a second.
+     */
+    detect(source: HTMLVideoElement | HTMLImageElement): Pose[];
+}
+
+let loading: Promise<PoseDetector | null> | null = null;
+
+async function createPoseDetector(): Promise<PoseDetector> {
+    const { PoseLandmarker } = await import('@mediapipe/tasks-vision');
+    const create = (delegate: 'GPU' | 'CPU') => PoseLandmarker.createFromOptions({ wasmLoaderPath, wasmBinaryPath }, {
+        baseOptions: { modelAssetPath: POSE_MODEL_PATH, delegate },
+        runningMode: 'VIDEO',
+        numPoses: MAX_POSES,
+    });
+    // WebGL isn't available everywhere (some privacy modes, older GPUs); the CPU is slower but always works.
+    const landmarker = await create('GPU').catch(err => {
+        console.warn('GPU pose detection unavailable, using the CPU:', err);
+        return create('CPU');
+    });
+
+    // Video mode rejects timestamps that don't strictly increase, and the detector outlives each camera session.
+    let lastTimestamp = 0;
+    return {
+        detect(source) {
+            lastTimestamp = Math.max(performance.now(), lastTimestamp + 1);
+            const result = landmarker.detectForVideo(source, lastTimestamp);
+            return result.landmarks.map(pose => pose.map(({ x, y, visibility }) => ({ x, y, visibility: visibility ?? 0 })));
+        },
+    };
+}
+
+/**
+ * Loads the pose detector once and shares it between camera sessions. Resolves to null when the model
+ * or the WebAssembly runtime can't be loaded, in which case the camera works without framing guidance.
+ */
+export function loadPoseDetector(): Promise<PoseDetector | null> {
+    loading ??= createPoseDetector().catch(err => {
+        console.warn('Pose detection unavailable, framing guidance is off:', err);
+        return null;
+    });
+    return loading;
+}
@@ -0,0 +1,85 @@
+import type { PersonalDetails, Profile } from '../types';
+import { BMI_SCHEMES } from '../utils/bmi';
+import { createId } from '../utils/id';
+
+const PROFILES_KEY = 'body-metrics-vision:profiles';
+const ACTIVE_PROFILE_KEY = 'body-metrics-vision:active-profile';
+
+export type ProfileDraft = Omit<Profile, 'id' | 'createdAt'>;
+
+const isProfile = (value: unknown): value is Profile => {
+    const profile = value as Partial<Profile> | null;
+    return typeof profile === 'object' && profile !== null
+        && typeof profile.id === 'string'
+        && typeof profile.name === 'string'
+        && (profile.units === 'metric' || profile.units === 'imperial')
+        && !!profile.bmiScheme && profile.bmiScheme in BMI_SCHEMES;
+};
+
+/** Profiles are few, small and needed on first render, so they live in localStorage like the settings. */
+export function loadProfiles(): Profile[] {
+    try {
+        const stored = JSON.parse(localStorage.getItem(PROFILES_KEY) ?? '[]') as unknown;
+        return Array.isArray(stored) ? stored.filter(isProfile) : [];
+    } catch (err) {
+        console.warn('Could not read profiles:', err);
+        return [];
+    }
+}
+
+export function saveProfiles(profiles: Profile[]): void {
+    try {
+        localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+    } catch (err) {
+        console.warn('Could not save profiles:', err);
+    }
+}
+
+export function createProfile(draft: ProfileDraft): Profile {
+    return { ...draft, id: createId(), createdAt: Date.now() };
+}
+
+/**
+ * The profile picked in this tab. Kept per tab rather than per device, so whoever picks up a shared
+ * device next starts at the picker instead of measuring into someone else's history.
+ */
+export function loadActiveProfileId(): string | undefined {
+    try {
+        return sessionStorage.getItem(ACTIVE_PROFILE_KEY) ?? undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+export function saveActiveProfileId(id: string | undefined): void {
+    try {
+        if (id) {
+            sessionStorage.setItem(ACTIVE_PROFILE_KEY, id);
+        } else {
+            sessionStorage.removeItem(ACTIVE_PROFILE_KEY);
+        }
+    } catch (err) {
+        console.warn('Could not remember the active profile:', err);
+    }
+}
+
+/** The details the derived metrics and suggestions use. The age is approximate, since only the birth year is known. */
+export function profileDetails(profile: Profile, now = new Date()): PersonalDetails {
+    return {
+        age: profile.birthYear !== undefined ? now.getFullYear() - profile.birthYear : undefined,
+        sex: profile.sex,
+        activity: profile.activity,
+        goal: profile.goal,
+    };
+}
+
+/** Writes details edited on the result page back to the profile, turning an age into a birth year. */
+export function applyDetails(profile: Profile, details: PersonalDetails, now = new Date()): Profile {
+    return {
+        ...profile,
+        birthYear: details.age !== undefined ? now.getFullYear() - details.age : undefined,
+        sex: details.sex,
+        activity: details.activity,
+        goal: details.goal,
+    };
+}
@@ -0,0 +1,5 @@
+/**
+ * Bump whenever the prompt or response schema in `geminiService.ts` changes; cached model responses
+ * are keyed on it. Kept in its own module so the browser can read it without bundling the Gemini SDK.
+ */
+export const PROMPT_VERSION = 5;
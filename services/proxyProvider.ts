@@ -0,0 +1,38 @@
+import type { GeminiAnalysisResponse } from '../types';
+import type { EstimationProvider } from './estimationProvider';
+import { NETWORK_ERROR_NAME, isAbortError } from './retry';
+
+export const DEFAULT_ANALYZE_ENDPOINT = '/api/analyze';
+
+/** Browser-side provider that forwards requests to the analysis server, which holds the model credentials. */
+export function createProxyProvider(endpoint: string = DEFAULT_ANALYZE_ENDPOINT): EstimationProvider {
+    return {
+        name: `proxy:${endpoint}`,
+        estimate: async (request, signal) => {
+            let response: Response;
+            try {
+                response = await fetch(endpoint, {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify(request),
+                    signal,
+                });
+            } catch (error) {
+                if (isAbortError(error)) throw error;
+                // fetch rejects with a TypeError when the request never got a response. Tagged here, where that's
+                // the only possible cause, so a TypeError from a bug elsewhere isn't retried as a network failure.
+                throw Object.assign(new Error('The analysis server could not be reached.', { cause: error }), { name: NETWORK_ERROR_NAME });
+            }
+
+            if (!response.ok) {
+                const body = await response.json().catch(() => null) as { error?: string } | null;
+                // Keep the status on the error so the retry logic can tell transient failures apart.
+                throw Object.assign(
+                    new Error(`Analysis server responded ${response.status}: ${body?.error ?? response.statusText}`),
+                    { status: response.status },
+                );
+            }
+            return await response.json() as GeminiAnalysisResponse;
+        },
+    };
+}
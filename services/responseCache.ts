@@ -0,0 +1,85 @@
+import type { GeminiAnalysisResponse } from '../types';
+import type { EstimationRequest } from './estimationProvider';
+import { PROMPT_VERSION } from './promptVersion';
+import { RESPONSE_CACHE_STORE, openDatabase, requestToPromise, withStore } from './db';
+
+export interface CachedResponse {
+    key: string;
+    response: GeminiAnalysisResponse;
+    storedAt: number;
+    /** Serialized size in characters, used for the size limit. */
+    size: number;
+}
+
+export interface ResponseCacheLimits {
+    maxEntries: number;
+    maxTotalSize: number;
+    maxAgeMs: number;
+}
+
+export const DEFAULT_CACHE_LIMITS: ResponseCacheLimits = {
+    maxEntries: 200,
+    maxTotalSize: 2 * 1024 * 1024,
+    maxAgeMs: 30 * 24 * 60 * 60 * 1000,
+};
+
+const toHex = (buffer: ArrayBuffer) => [...new Uint8Array(buffer)].map(b => b.toString(16).padStart(2, '0')).join('');
+
+/**
+ * Content hash of everything that determines the model's answer: the normalized images, the
+ * method, the reference object, the known height, the chosen subject and the prompt version.
+ */
+export async function computeCacheKey(request: EstimationRequest): Promise<string> {
+    const parts = [
+        `v${PROMPT_VERSION}`,
+        request.method,
+        request.reference ? JSON.stringify(request.reference) : '-',
+        String(request.knownHeightCm ?? '-'),
+        request.subjectBox ? JSON.stringify(request.subjectBox) : '-',
+        ...request.images.flatMap(image => [image.view, image.mimeType, image.base64Image]),
+    ];
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(parts.join('\n')));
+    return toHex(digest);
+}
+
+/** Returns the cached response for `key`, or undefined when there is none or it has expired. */
+export async function readCachedResponse(key: string, limits: ResponseCacheLimits = DEFAULT_CACHE_LIMITS): Promise<CachedResponse | undefined> {
+    const entry = await withStore<CachedResponse | undefined>(RESPONSE_CACHE_STORE, 'readonly', store => store.get(key));
+    if (!entry || Date.now() - entry.storedAt > limits.maxAgeMs) return undefined;
+    return entry;
+}
+
+export async function writeCachedResponse(key: string, response: GeminiAnalysisResponse, limits: ResponseCacheLimits = DEFAULT_CACHE_LIMITS): Promise<void> {
+    const entry: CachedResponse = { key, response, storedAt: Date.now(), size: JSON.stringify(response).length };
+    await withStore(RESPONSE_CACHE_STORE, 'readwrite', store => store.put(entry));
+    await pruneCache(limits);
+}
+
+/** Drops expired entries, then the oldest ones until both the count and size limits are met. */
+async function pruneCache(limits: ResponseCacheLimits): Promise<void> {
+    const entries = await withStore<CachedResponse[]>(RESPONSE_CACHE_STORE, 'readonly', store => store.index('storedAt').getAll());
+    const now = Date.now();
+    let count = entries.length;
+    let totalSize = entries.reduce((sum, entry) => sum + entry.size, 0);
+    const stale: string[] = [];
+    // Oldest first, as returned by the index.
+    for (const entry of entries) {
+        if (now - entry.storedAt <= limits.maxAgeMs && count <= limits.maxEntries && totalSize <= limits.maxTotalSize) break;
+        stale.push(entry.key);
+        count -= 1;
+        totalSize -= entry.size;
+    }
+    if (stale.length === 0) return;
+
+    const db = await openDatabase();
+    const store = db.transaction(RESPONSE_CACHE_STORE, 'readwrite').objectStore(RESPONSE_CACHE_STORE);
+    await Promise.all(stale.map(key => requestToPromise(store.delete(key))));
+}
+
+export async function countCachedResponses(): Promise<number> {
+    return withStore<number>(RESPONSE_CACHE_STORE, 'readonly', store => store.count());
+}
+
+export async function clearResponseCache(): Promise<void> {
+    await withStore(RESPONSE_CACHE_STORE, 'readwrite', store => store.clear());
+}
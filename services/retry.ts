@@ -0,0 +1,106 @@
+export interface RetryOptions {
+    /** Attempts in total, including the first. */
+    maxAttempts: number;
+    baseDelayMs: number;
+    maxDelayMs: number;
+    /** Upper bound for a single attempt. A hung call counts as a transient failure. */
+    attemptTimeoutMs: number;
+    signal?: AbortSignal;
+    onAttempt?: (attempt: number, maxAttempts: number) => void;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+    maxAttempts: 3,
+    baseDelayMs: 1000,
+    maxDelayMs: 8000,
+    attemptTimeoutMs: 45_000,
+};
+
+/** Thrown when a single attempt exceeds `attemptTimeoutMs`. */
+export const TIMEOUT_ERROR_NAME = 'TimeoutError';
+
+/** Thrown by a transport when its request never got a response, e.g. while offline. */
+export const NETWORK_ERROR_NAME = 'NetworkError';
+
+export const isAbortError = (error: unknown) => error instanceof Error && error.name === 'AbortError';
+
+const abortError = () => new DOMException('The analysis was cancelled.', 'AbortError');
+
+/**
+ * Transient failures are worth retrying: rate limits, server errors, timeouts and network failures.
+ * Anything else, including a TypeError from a bug in the response handling, fails right away.
+ */
+export function isTransientError(error: unknown): boolean {
+    if (!(error instanceof Error) || isAbortError(error)) return false;
+    if (error.name === TIMEOUT_ERROR_NAME || error.name === NETWORK_ERROR_NAME) return true;
+    const status = (error as Error & { status?: unknown }).status;
+    return typeof status === 'number' && (status === 408 || status === 429 || status >= 500);
+}
+
+/** Full-jitter exponential backoff: a random delay between 0 and base * 2^(attempt - 1), capped. */
+export function backoffDelay(attempt: number, baseDelayMs: number, maxDelayMs: number, random: () => number = Math.random): number {
+    return Math.round(random() * Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1)));
+}
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+        reject(abortError());
+        return;
+    }
+    const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+    }, ms);
+    const onAbort = () => {
+        clearTimeout(timer);
+        reject(abortError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * Runs `task` with a per-attempt timeout, retrying transient failures with backoff.
+ * Each attempt gets its own signal that fires on cancellation or timeout, so the
+ * underlying request is actually torn down rather than left running.
+ */
+export async function withRetry<T>(task: (signal: AbortSignal) => Promise<T>, options: RetryOptions): Promise<T> {
+    const { maxAttempts, baseDelayMs, maxDelayMs, attemptTimeoutMs, signal, onAttempt } = options;
+
+    for (let attempt = 1; ; attempt++) {
+        if (signal?.aborted) throw abortError();
+        onAttempt?.(attempt, maxAttempts);
+
+        const controller = new AbortController();
+        let timedOut = false;
+        const timer = setTimeout(() => {
+            timedOut = true;
+            controller.abort();
+        }, attemptTimeoutMs);
+        const forwardAbort = () => controller.abort();
+        signal?.addEventListener('abort', forwardAbort, { once: true });
+
+        try {
+            return await new Promise<T>((resolve, reject) => {
+                // Settle as soon as the attempt is aborted, even if the task ignores its signal.
+                controller.signal.addEventListener('abort', () => {
+                    if (timedOut) {
+                        const timeout = new Error(`The analysis took longer than ${Math.round(attemptTimeoutMs / 1000)} seconds.`);
+                        timeout.name = TIMEOUT_ERROR_NAME;
+                        reject(timeout);
+                    } else {
+                        reject(abortError());
+                    }
+                }, { once: true });
+                task(controller.signal).then(resolve, reject);
+            });
+        } catch (error) {
+            if (signal?.aborted) throw abortError();
+            if (attempt >= maxAttempts || !isTransientError(error)) throw error;
+            console.warn(`Analysis attempt ${attempt} of ${maxAttempts} failed, retrying:`, error);
+            await sleep(backoffDelay(attempt, baseDelayMs, maxDelayMs), signal);
+        } finally {
+            clearTimeout(timer);
+            signal?.removeEventListener('abort', forwardAbort);
+        }
+    }
+}
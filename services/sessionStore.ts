@@ -0,0 +1,34 @@
+import type { AnalysisResult } from '../types';
+
+const LAST_RESULT_KEY = 'body-metrics-vision:last-result';
+
+export interface SessionResult {
+    result: AnalysisResult;
+    measuredAt: number;
+}
+
+/**
+ * Keeps the latest result for the current tab, so reloading the result page doesn't lose it.
+ * Images are left out: they can exceed the storage quota, and the result page works without them.
+ */
+export function saveSessionResult(entry: SessionResult | null): void {
+    try {
+        if (entry) {
+            sessionStorage.setItem(LAST_RESULT_KEY, JSON.stringify(entry));
+        } else {
+            sessionStorage.removeItem(LAST_RESULT_KEY);
+        }
+    } catch (err) {
+        console.warn('Could not store the result for this session:', err);
+    }
+}
+
+export function loadSessionResult(): SessionResult | null {
+    try {
+        const stored = sessionStorage.getItem(LAST_RESULT_KEY);
+        return stored ? JSON.parse(stored) as SessionResult : null;
+    } catch (err) {
+        console.warn('Could not read the stored result:', err);
+        return null;
+    }
+}
@@ -0,0 +1,39 @@
+import type { BmiSchemeId } from '../types';
+import { BMI_SCHEMES, DEFAULT_BMI_SCHEME } from '../utils/bmi';
+
+export interface AppSettings {
+    bmiScheme: BmiSchemeId;
+    /** Reuse earlier model responses for an identical image instead of paying for a new call. */
+    useResponseCache: boolean;
+}
+
+const SETTINGS_KEY = 'body-metrics-vision:settings';
+
+export const DEFAULT_SETTINGS: AppSettings = {
+    bmiScheme: DEFAULT_BMI_SCHEME,
+    useResponseCache: true,
+};
+
+/** Settings are small and needed on first render, so they live in localStorage rather than IndexedDB. */
+export function loadSettings(): AppSettings {
+    try {
+        const stored = JSON.parse(localStorage.getItem(SETTINGS_KEY) ?? '{}') as Partial<AppSettings>;
+        return {
+            ...DEFAULT_SETTINGS,
+            // Ignore values from a newer or tampered version rather than crashing on them.
+            bmiScheme: stored.bmiScheme && stored.bmiScheme in BMI_SCHEMES ? stored.bmiScheme : DEFAULT_SETTINGS.bmiScheme,
+            useResponseCache: typeof stored.useResponseCache === 'boolean' ? stored.useResponseCache : DEFAULT_SETTINGS.useResponseCache,
+        };
+    } catch (err) {
+        console.warn('Could not read settings, using defaults:', err);
+        return DEFAULT_SETTINGS;
+    }
+}
+
+export function saveSettings(settings: AppSettings): void {
+    try {
+        localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+    } catch (err) {
+        console.warn('Could not save settings:', err);
+    }
+}
@@ -0,0 +1,42 @@
+import type { BoundingBox, CapturedImage } from '../types';
+import { loadImage } from '../utils/image';
+import { findSubject, poseBounds, type Pose } from '../utils/framingChecks';
+import { trackSubject } from '../utils/subjectTracking';
+import { loadPoseDetector } from './poseDetector';
+
+/**
+ * The subject's box in every frame of a sequence, given the one picked on its first frame. The subject
+ * may move between frames, so each is checked with the on-device pose model. Without the model every
+ * frame gets the picked box.
+ */
+export async function trackSubjectAcrossFrames(frames: CapturedImage[], picked: BoundingBox): Promise<BoundingBox[]> {
+    const detector = await loadPoseDetector();
+    if (!detector) return frames.map(() => picked);
+    const framePoses: (Pose[] | null)[] = [];
+    for (const frame of frames) {
+        try {
+            const image = await loadImage(`data:${frame.mimeType};base64,${frame.base64Image}`);
+            framePoses.push(detector.detect(image));
+        } catch (err) {
+            console.warn('Pose detection failed on a sequence frame:', err);
+            framePoses.push(null);
+        }
+    }
+    return trackSubject(picked, framePoses);
+}
+
+/**
+ * Height of the person nearest the camera as a share of the image height, measured with the on-device
+ * pose model. Undefined when the model can't be loaded, fails, or finds no one.
+ */
+export async function measureSubjectHeight(image: HTMLImageElement): Promise<number | undefined> {
+    const detector = await loadPoseDetector();
+    if (!detector) return undefined;
+    try {
+        const subject = findSubject(detector.detect(image));
+        return subject && poseBounds(subject)?.height;
+    } catch (err) {
+        console.warn('Pose detection failed on a photo:', err);
+        return undefined;
+    }
+}
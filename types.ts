@@ -1,19 +1,238 @@
+/** 'paper' is the reference object method; the name predates objects other than paper and is kept for stored history. */
+export type CaptureMethod = 'paper' | 'pose' | 'environment';
+
+export type ReferenceObjectId = 'a4_paper' | 'us_letter' | 'id1_card' | 'interior_door' | 'floor_tile' | 'companion';
+
+/** An object of known size that sets the scale in reference mode. See `utils/referenceObjects.ts`. */
+export interface ReferenceObject {
+    id: ReferenceObjectId;
+    /** Real-world size in centimeters: the catalog's for standard objects, the user's for tiles and companions. */
+    heightCm: number;
+    /** Missing where only the height is known, e.g. a door or a person. */
+    widthCm?: number;
+}
+
+export type CaptureView = 'front' | 'side' | 'back';
+
+export type AccuracyLevel = 'high' | 'medium' | 'low';
+
+/** Inclusive lower and upper bound of an estimate. */
+export interface ValueRange {
+    lower: number;
+    upper: number;
+}
+
+export type QualityIssue = 'blurry' | 'too_dark' | 'too_bright' | 'low_contrast' | 'low_resolution' | 'landscape' | 'subject_small';
+
+/** Result of the local pre-upload check in `utils/imageQuality.ts`. */
+export interface ImageQuality {
+    /** 0 (unusable) to 100 (no issues found). */
+    score: number;
+    issues: QualityIssue[];
+    metrics: {
+        sharpness: number;
+        brightness: number;
+        contrast: number;
+        width: number;
+        height: number;
+        aspectRatio: number;
+        /** Height of the person nearest the camera as a share of the image height. Missing when the pose model is unavailable or finds no one. */
+        subjectHeight?: number;
+    };
+}
+
+export type CameraResolution = 'auto' | 'hd' | 'full_hd' | 'uhd';
+
+/** The camera setup a photo was taken with, so an odd result can be traced back to the device. */
+export interface CameraCaptureInfo {
+    /** As reported by the browser, e.g. "Back Camera"; missing when the browser hides it. */
+    deviceLabel?: string;
+    facingMode?: string;
+    /** The resolution the user asked for; `width` and `height` are what the camera delivered. */
+    requestedResolution: CameraResolution;
+    width: number;
+    height: number;
+    /** Whether the frame was flipped horizontally to match a selfie-style preview. */
+    mirrored: boolean;
+    zoom?: number;
+    torch?: boolean;
+}
+
+export interface CapturedImage {
+    view: CaptureView;
+    /** Normalized by `utils/imagePreprocess.ts`: upright, downsized and stripped of metadata. */
+    base64Image: string;
+    mimeType: string;
+    quality?: ImageQuality;
+    /** Only for camera captures. */
+    camera?: CameraCaptureInfo;
+}
+
+export interface ViewEstimate {
+    view: CaptureView;
+    heightCm: number;
+    weightKg: number;
+}
+
+/** Position relative to the image: 0,0 is the top-left corner and 1,1 the bottom-right. */
+export interface NormalizedPoint {
+    x: number;
+    y: number;
+}
+
+/** Keypoints the model used for its estimate, all on the first (front) image. */
+export interface Landmarks {
+    headTop?: NormalizedPoint;
+    feet: NormalizedPoint[];
+    /** Left and right fingertips of the arm span, Guided Pose only. */
+    fingertips: NormalizedPoint[];
+    /** Corners of the reference object in drawing order, reference mode only. */
+    paperCorners: NormalizedPoint[];
+}
+
+/** Axis-aligned box in normalized image coordinates (0 to 1), measured from the top-left corner. */
+export interface BoundingBox {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+/** How closely the per-view estimates of a multi-view analysis matched each other. */
+export interface ViewAgreement {
+    level: 'high' | 'medium' | 'low';
+    heightSpreadCm: number;
+    weightSpreadKg: number;
+}
+
+/** How much the per-frame estimates of a sequence capture varied: a measured consistency, unlike the model's own `accuracy`. */
+export interface FrameConsistency {
+    level: 'high' | 'medium' | 'low';
+    /** Frames that produced an estimate. */
+    analyzedFrames: number;
+    /** Frames left after outlier rejection; the final estimate is their median. */
+    usedFrames: number;
+    /** Max minus min over the used frames. */
+    heightSpreadCm: number;
+    weightSpreadKg: number;
+}
+
+export type Sex = 'male' | 'female';
+
+export type ActivityLevel = 'sedentary' | 'light' | 'active' | 'very_active';
+
+export type WeightGoal = 'lose' | 'maintain' | 'gain';
+
+export type UnitSystem = 'metric' | 'imperial';
+
+/** A person measured on this device. Profiles only ever live in the browser. */
+export interface Profile {
+    id: string;
+    name: string;
+    /** A year rather than a date of birth: enough for an age band, and less personal. */
+    birthYear?: number;
+    sex?: Sex;
+    units: UnitSystem;
+    bmiScheme: BmiSchemeId;
+    activity?: ActivityLevel;
+    goal?: WeightGoal;
+    createdAt: number;
+}
+
+/** Optional details that some derived metrics (body fat, BMR) and the tailored suggestions need. */
+export interface PersonalDetails {
+    age?: number;
+    sex?: Sex;
+    activity?: ActivityLevel;
+    goal?: WeightGoal;
+}
+
+/** Body circumferences estimated from the outline, in cm. Any of them may be missing. */
+export interface Circumferences {
+    waistCm?: number;
+    hipCm?: number;
+    neckCm?: number;
+}
+
+export type BmiSchemeId = 'who' | 'asia_pacific' | 'who_extended';
+
+export type BmiCategory =
+    | 'Underweight'
+    | 'Normal weight'
+    | 'Overweight'
+    | 'Obese'
+    | 'Obese Class I'
+    | 'Obese Class II'
+    | 'Obese Class III';
+
 export interface BmiCategoryInfo {
-    category: 'Underweight' | 'Normal weight' | 'Overweight' | 'Obese';
+    category: BmiCategory;
     color: string;
 }
 
-export interface AnalysisResult extends BmiCategoryInfo {
+/** What an analysis produces before BMI is derived from it. */
+export interface MetricsEstimate {
     heightCm: number;
     weightKg: number;
+    heightRangeCm: ValueRange;
+    weightRangeKg: ValueRange;
+    accuracy: AccuracyLevel;
+    /** 'user' when the height was typed in by the user rather than estimated from the image. */
+    heightSource: 'estimated' | 'user';
+    /** Per-view estimates, only present when several views were fused. */
+    viewEstimates?: ViewEstimate[];
+    viewAgreement?: ViewAgreement;
+    /** Only present for sequence captures, where each frame was analyzed on its own. */
+    frameConsistency?: FrameConsistency;
+    landmarks?: Landmarks;
+    circumferences?: Circumferences;
+    /** The person the user picked when the photo showed several adults, on the first image. */
+    subjectBox?: BoundingBox;
+    /** Set when the response came from the local cache: when the original analysis ran. */
+    cachedAt?: number;
+}
+
+export interface AnalysisResult extends BmiCategoryInfo, MetricsEstimate {
     bmi: number;
-    accuracy: 'high' | 'medium' | 'low';
+    bmiRange: ValueRange;
+    /** Classification the category was taken from. Missing on results saved before schemes existed (WHO). */
+    bmiScheme?: BmiSchemeId;
+    /** Lowest local quality score among the analyzed images, when it could be measured. */
+    imageQuality?: { score: number; issues: QualityIssue[] };
+    /** Camera setup of the first image, for camera captures. */
+    camera?: CameraCaptureInfo;
+    /** Who was measured. Missing for guest measurements and results saved before profiles existed. */
+    profileId?: string;
+}
+
+export interface HistoryEntry extends AnalysisResult {
+    id: string;
+    timestamp: number;
+    method: CaptureMethod;
+    /** Small JPEG preview of the analyzed image, base64 without the data URI prefix. */
+    thumbnail?: string;
 }
 
 export interface GeminiAnalysisResponse {
     analysisSuccess: boolean;
     heightCm: number;
     weightKg: number;
-    accuracy: 'high' | 'medium' | 'low';
-    reason?: 'no_person_detected' | 'child_detected' | 'image_unclear' | string;
+    heightCmLower?: number;
+    heightCmUpper?: number;
+    weightKgLower?: number;
+    weightKgUpper?: number;
+    accuracy: AccuracyLevel;
+    reason?: 'no_person_detected' | 'child_detected' | 'image_unclear' | 'multiple_people' | string;
+    waistCm?: number;
+    hipCm?: number;
+    neckCm?: number;
+    /** Every adult detected on the first image. */
+    people?: { box: BoundingBox }[];
+    viewEstimates?: { view: string; heightCm: number; weightKg: number }[];
+    landmarks?: {
+        headTop?: NormalizedPoint;
+        feet?: NormalizedPoint[];
+        fingertips?: NormalizedPoint[];
+        paperCorners?: NormalizedPoint[];
+    };
 }
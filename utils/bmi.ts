@@ -1,5 +1,67 @@
+import type { BmiCategoryInfo, BmiSchemeId, ValueRange } from '../types';
 
-import type { BmiCategoryInfo } from '../types';
+export interface BmiBand extends BmiCategoryInfo {
+  min: number;
+  max: number;
+}
+
+export interface BmiScheme {
+  id: BmiSchemeId;
+  name: string;
+  description: string;
+  /** Ascending. `max` is exclusive; the last band is open-ended. */
+  bands: BmiBand[];
+}
+
+const BLUE = '#3b82f6';
+const GREEN = '#22c55e';
+const ORANGE = '#f97316';
+const RED = '#ef4444';
+
+export const BMI_SCHEMES: Record<BmiSchemeId, BmiScheme> = {
+  who: {
+    id: 'who',
+    name: 'WHO standard',
+    description: 'The international adult cut-offs: overweight from 25, obese from 30.',
+    bands: [
+      { category: 'Underweight', color: BLUE, min: 0, max: 18.5 },
+      { category: 'Normal weight', color: GREEN, min: 18.5, max: 25 },
+      { category: 'Overweight', color: ORANGE, min: 25, max: 30 },
+      { category: 'Obese', color: RED, min: 30, max: Infinity },
+    ],
+  },
+  asia_pacific: {
+    id: 'asia_pacific',
+    name: 'Asia-Pacific',
+    description: 'Lower cut-offs recommended for South and East Asian adults, who carry higher risk at the same BMI: overweight from 23, obese from 27.5.',
+    bands: [
+      { category: 'Underweight', color: BLUE, min: 0, max: 18.5 },
+      { category: 'Normal weight', color: GREEN, min: 18.5, max: 23 },
+      { category: 'Overweight', color: ORANGE, min: 23, max: 27.5 },
+      { category: 'Obese', color: RED, min: 27.5, max: Infinity },
+    ],
+  },
+  who_extended: {
+    id: 'who_extended',
+    name: 'WHO with obesity classes',
+    description: 'The WHO cut-offs with obesity split into Class I (30–34.9), Class II (35–39.9) and Class III (40 and above).',
+    bands: [
+      { category: 'Underweight', color: BLUE, min: 0, max: 18.5 },
+      { category: 'Normal weight', color: GREEN, min: 18.5, max: 25 },
+      { category: 'Overweight', color: ORANGE, min: 25, max: 30 },
+      { category: 'Obese Class I', color: RED, min: 30, max: 35 },
+      { category: 'Obese Class II', color: '#dc2626', min: 35, max: 40 },
+      { category: 'Obese Class III', color: '#991b1b', min: 40, max: Infinity },
+    ],
+  },
+};
+
+export const DEFAULT_BMI_SCHEME: BmiSchemeId = 'who';
+
+/** Looks up a scheme by id, falling back to the default for unknown or missing ids (e.g. old history entries). */
+export function getBmiScheme(id: string | undefined): BmiScheme {
+  return BMI_SCHEMES[id as BmiSchemeId] ?? BMI_SCHEMES[DEFAULT_BMI_SCHEME];
+}
 
 export function calculateBMI(heightCm: number, weightKg: number): number {
   if (heightCm <= 0 || weightKg <= 0) {
@@ -9,15 +71,46 @@ export function calculateBMI(heightCm: number, weightKg: number): number {
   return weightKg / (heightM * heightM);
 }
 
-export function getBmiCategory(bmi: number): BmiCategoryInfo {
-  if (bmi < 18.5) {
-    return { category: 'Underweight', color: '#3b82f6' }; // Blue
-  }
-  if (bmi >= 18.5 && bmi < 25) {
-    return { category: 'Normal weight', color: '#22c55e' }; // Green
-  }
-  if (bmi >= 25 && bmi < 30) {
-    return { category: 'Overweight', color: '#f97316' }; // Orange
-  }
-  return { category: 'Obese', color: '#ef4444' }; // Red
+/** Weights that put someone of this height in the scheme's 'Normal weight' band. */
+export function healthyWeightRange(heightCm: number, scheme: BmiScheme = BMI_SCHEMES[DEFAULT_BMI_SCHEME]): ValueRange {
+  const band = scheme.bands.find(b => b.category === 'Normal weight') ?? BMI_SCHEMES[DEFAULT_BMI_SCHEME].bands[1];
+  const heightM = heightCm / 100;
+  return { lower: band.min * heightM * heightM, upper: band.max * heightM * heightM };
+}
+
+/** Widest plausible BMI span: lightest weight at the tallest height, heaviest weight at the shortest. */
+export function calculateBmiRange(heightRangeCm: ValueRange, weightRangeKg: ValueRange): ValueRange {
+  return {
+    lower: calculateBMI(heightRangeCm.upper, weightRangeKg.lower),
+    upper: calculateBMI(heightRangeCm.lower, weightRangeKg.upper),
+  };
+}
+
+export function getBmiCategory(bmi: number, scheme: BmiScheme = BMI_SCHEMES[DEFAULT_BMI_SCHEME]): BmiCategoryInfo {
+  const band = scheme.bands.find(b => bmi < b.max) ?? scheme.bands[scheme.bands.length - 1];
+  return { category: band.category, color: band.color };
+}
+
+/** Every category a BMI range touches, in ascending order. More than one means the range crosses a boundary. */
+export function getBmiCategoriesInRange(range: ValueRange, scheme: BmiScheme = BMI_SCHEMES[DEFAULT_BMI_SCHEME]): BmiCategoryInfo[] {
+  return scheme.bands
+    .filter(b => range.upper >= b.min && range.lower < b.max)
+    .map(b => ({ category: b.category, color: b.color }));
+}
+
+// How much of the open-ended top band the gauge shows.
+const GAUGE_TOP_BAND_SPAN = 10;
+
+/**
+ * Position of a BMI on a gauge where every band of the scheme gets an equal-width segment,
+ * as a percentage. Clamped to 2–98% so the marker stays visually within the bar.
+ */
+export function bmiGaugePosition(bmi: number, scheme: BmiScheme): number {
+  const segment = 100 / scheme.bands.length;
+  const found = scheme.bands.findIndex(b => bmi < b.max);
+  const index = found === -1 ? scheme.bands.length - 1 : found;
+  const band = scheme.bands[index];
+  const bandMax = Number.isFinite(band.max) ? band.max : band.min + GAUGE_TOP_BAND_SPAN;
+  const fraction = Math.min(Math.max((bmi - band.min) / (bandMax - band.min), 0), 1);
+  return Math.max(2, Math.min(index * segment + fraction * segment, 98));
 }
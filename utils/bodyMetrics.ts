@@ -0,0 +1,173 @@
+import type { Circumferences, GeminiAnalysisResponse, MetricsEstimate, PersonalDetails, Sex, ValueRange } from '../types';
+import { resolveRange } from './uncertainty';
+
+export interface MetricBand {
+  label: string;
+  color: string;
+  min: number;
+  max: number;
+}
+
+export interface DerivedMetric {
+  value: number;
+  /** Plausible span given the uncertainty of the inputs, when it can be propagated. */
+  range?: ValueRange;
+  /** Reference band the value falls in; missing when the rating needs details the user didn't give. */
+  band?: MetricBand;
+}
+
+export interface BodyComposition {
+  waistToHeight?: DerivedMetric;
+  waistToHip?: DerivedMetric;
+  bodyFatPercent?: DerivedMetric;
+  bmrKcal?: DerivedMetric;
+}
+
+const GREEN = '#22c55e';
+const YELLOW = '#eab308';
+const ORANGE = '#f97316';
+const RED = '#ef4444';
+const BLUE = '#3b82f6';
+
+// `max` is exclusive; the last band is open-ended.
+export const WAIST_TO_HEIGHT_BANDS: MetricBand[] = [
+  { label: 'Low', color: BLUE, min: 0, max: 0.4 },
+  { label: 'Healthy', color: GREEN, min: 0.4, max: 0.5 },
+  { label: 'Increased risk', color: ORANGE, min: 0.5, max: 0.6 },
+  { label: 'High risk', color: RED, min: 0.6, max: Infinity },
+];
+
+// WHO cut-offs for substantially increased metabolic risk.
+export const WAIST_TO_HIP_BANDS: Record<Sex, MetricBand[]> = {
+  male: [
+    { label: 'Low risk', color: GREEN, min: 0, max: 0.9 },
+    { label: 'Increased risk', color: RED, min: 0.9, max: Infinity },
+  ],
+  female: [
+    { label: 'Low risk', color: GREEN, min: 0, max: 0.85 },
+    { label: 'Increased risk', color: RED, min: 0.85, max: Infinity },
+  ],
+};
+
+// American Council on Exercise categories.
+export const BODY_FAT_BANDS: Record<Sex, MetricBand[]> = {
+  male: [
+    { label: 'Essential fat', color: BLUE, min: 0, max: 6 },
+    { label: 'Athletic', color: GREEN, min: 6, max: 14 },
+    { label: 'Fit', color: GREEN, min: 14, max: 18 },
+    { label: 'Average', color: YELLOW, min: 18, max: 25 },
+    { label: 'Obese', color: RED, min: 25, max: Infinity },
+  ],
+  female: [
+    { label: 'Essential fat', color: BLUE, min: 0, max: 14 },
+    { label: 'Athletic', color: GREEN, min: 14, max: 21 },
+    { label: 'Fit', color: GREEN, min: 21, max: 25 },
+    { label: 'Average', color: YELLOW, min: 25, max: 32 },
+    { label: 'Obese', color: RED, min: 32, max: Infinity },
+  ],
+};
+
+// Anything outside these is a misread outline rather than an unusual body.
+const PLAUSIBLE_CM: Record<keyof Circumferences, [number, number]> = {
+  waistCm: [40, 250],
+  hipCm: [50, 250],
+  neckCm: [20, 70],
+};
+
+export function getMetricBand(bands: MetricBand[], value: number): MetricBand {
+  return bands.find(b => value < b.max) ?? bands[bands.length - 1];
+}
+
+/** Keeps only finite, plausible circumferences. Returns undefined when none are usable. */
+export function sanitizeCircumferences(raw: Pick<GeminiAnalysisResponse, 'waistCm' | 'hipCm' | 'neckCm'>): Circumferences | undefined {
+  const circumferences: Circumferences = {};
+  for (const key of Object.keys(PLAUSIBLE_CM) as (keyof Circumferences)[]) {
+    const value = raw[key];
+    const [min, max] = PLAUSIBLE_CM[key];
+    if (typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max) {
+      circumferences[key] = value;
+    }
+  }
+  return Object.keys(circumferences).length > 0 ? circumferences : undefined;
+}
+
+export const waistToHeightRatio = (waistCm: number, heightCm: number) => waistCm / heightCm;
+
+export const waistToHipRatio = (waistCm: number, hipCm: number) => waistCm / hipCm;
+
+/**
+ * US Navy body-fat formula (metric form). Women need the hip circumference as well.
+ * Returns null when the measurements don't fit the formula, e.g. a neck wider than the waist.
+ */
+export function estimateBodyFatNavy(sex: Sex, heightCm: number, waistCm: number, neckCm: number, hipCm?: number): number | null {
+  let percent: number;
+  if (sex === 'male') {
+    if (waistCm <= neckCm) return null;
+    percent = 495 / (1.0324 - 0.19077 * Math.log10(waistCm - neckCm) + 0.15456 * Math.log10(heightCm)) - 450;
+  } else {
+    if (hipCm === undefined || waistCm + hipCm <= neckCm) return null;
+    percent = 495 / (1.29579 - 0.35004 * Math.log10(waistCm + hipCm - neckCm) + 0.221 * Math.log10(heightCm)) - 450;
+  }
+  return Number.isFinite(percent) && percent > 0 && percent < 75 ? percent : null;
+}
+
+/** Basal metabolic rate in kcal/day (Mifflin-St Jeor). */
+export function calculateBmr(weightKg: number, heightCm: number, age: number, sex: Sex): number {
+  return 10 * weightKg + 6.25 * heightCm - 5 * age + (sex === 'male' ? 5 : -161);
+}
+
+const orderedRange = (a: number, b: number): ValueRange => ({ lower: Math.min(a, b), upper: Math.max(a, b) });
+
+/**
+ * Derives the body composition metrics that the estimate and the personal details allow.
+ * Ranges assume the circumference error dominates, so height is taken as exact.
+ */
+export function computeBodyComposition(estimate: MetricsEstimate, details: PersonalDetails): BodyComposition {
+  const { heightCm, weightKg, weightRangeKg, accuracy, circumferences = {} } = estimate;
+  const { age, sex } = details;
+  const { waistCm, hipCm, neckCm } = circumferences;
+  const circumferenceRange = (value: number) => resolveRange(value, undefined, undefined, accuracy, 'circumference');
+  const composition: BodyComposition = {};
+
+  if (waistCm !== undefined) {
+    const waistRange = circumferenceRange(waistCm);
+    const value = waistToHeightRatio(waistCm, heightCm);
+    composition.waistToHeight = {
+      value,
+      range: { lower: waistToHeightRatio(waistRange.lower, heightCm), upper: waistToHeightRatio(waistRange.upper, heightCm) },
+      band: getMetricBand(WAIST_TO_HEIGHT_BANDS, value),
+    };
+
+    if (hipCm !== undefined) {
+      // Both circumferences are read from the same outline, so their errors largely cancel out; no range.
+      const whr = waistToHipRatio(waistCm, hipCm);
+      composition.waistToHip = { value: whr, band: sex ? getMetricBand(WAIST_TO_HIP_BANDS[sex], whr) : undefined };
+    }
+
+    if (sex && neckCm !== undefined) {
+      const value = estimateBodyFatNavy(sex, heightCm, waistCm, neckCm, hipCm);
+      if (value !== null) {
+        const hipRange = hipCm !== undefined ? circumferenceRange(hipCm) : undefined;
+        const lower = estimateBodyFatNavy(sex, heightCm, waistRange.lower, neckCm, hipRange?.lower);
+        const upper = estimateBodyFatNavy(sex, heightCm, waistRange.upper, neckCm, hipRange?.upper);
+        composition.bodyFatPercent = {
+          value,
+          range: lower !== null && upper !== null ? orderedRange(lower, upper) : undefined,
+          band: getMetricBand(BODY_FAT_BANDS[sex], value),
+        };
+      }
+    }
+  }
+
+  if (sex && age !== undefined) {
+    composition.bmrKcal = {
+      value: calculateBmr(weightKg, heightCm, age, sex),
+      range: {
+        lower: calculateBmr(weightRangeKg.lower, heightCm, age, sex),
+        upper: calculateBmr(weightRangeKg.upper, heightCm, age, sex),
+      },
+    };
+  }
+
+  return composition;
+}
@@ -0,0 +1,100 @@
+import type { AnalysisResult, CaptureMethod, HistoryEntry, Profile } from '../types';
+import { getBmiScheme } from './bmi';
+import { formatRange } from './uncertainty';
+
+/** A result with the context an export needs. History entries already qualify. */
+export type ExportableResult = AnalysisResult & { method: CaptureMethod; timestamp: number };
+
+export const methodLabels: Record<CaptureMethod, string> = {
+    paper: 'Reference object',
+    pose: 'Guided Pose',
+    environment: 'Quick Snap',
+};
+
+const round = (value: number | undefined, digits = 1) =>
+    value === undefined ? '' : (Math.round(value * 10 ** digits) / 10 ** digits).toString();
+
+const csvColumns: { header: string; value: (r: ExportableResult) => string }[] = [
+    { header: 'date', value: r => new Date(r.timestamp).toISOString() },
+    { header: 'method', value: r => r.method },
+    { header: 'accuracy', value: r => r.accuracy },
+    { header: 'height_source', value: r => r.heightSource },
+    { header: 'height_cm', value: r => round(r.heightCm) },
+    { header: 'height_cm_lower', value: r => round(r.heightRangeCm.lower) },
+    { header: 'height_cm_upper', value: r => round(r.heightRangeCm.upper) },
+    { header: 'weight_kg', value: r => round(r.weightKg) },
+    { header: 'weight_kg_lower', value: r => round(r.weightRangeKg.lower) },
+    { header: 'weight_kg_upper', value: r => round(r.weightRangeKg.upper) },
+    { header: 'bmi', value: r => round(r.bmi) },
+    { header: 'bmi_lower', value: r => round(r.bmiRange.lower) },
+    { header: 'bmi_upper', value: r => round(r.bmiRange.upper) },
+    { header: 'bmi_category', value: r => r.category },
+    { header: 'bmi_scheme', value: r => getBmiScheme(r.bmiScheme).id },
+    { header: 'waist_cm', value: r => round(r.circumferences?.waistCm) },
+    { header: 'hip_cm', value: r => round(r.circumferences?.hipCm) },
+    { header: 'neck_cm', value: r => round(r.circumferences?.neckCm) },
+    { header: 'image_quality', value: r => r.imageQuality?.score.toString() ?? '' },
+];
+
+// Quote only when needed, doubling embedded quotes (RFC 4180).
+const csvCell = (value: string) => /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export function toCsv(results: ExportableResult[]): string {
+    const rows = [
+        csvColumns.map(c => c.header),
+        ...results.map(result => csvColumns.map(c => csvCell(c.value(result)))),
+    ];
+    return rows.map(row => row.join(',')).join('\r\n') + '\r\n';
+}
+
+// Thumbnails are left out: they would dwarf the data and aren't useful outside the app.
+const withoutThumbnail = (result: ExportableResult) => {
+    const { thumbnail: _thumbnail, ...rest } = result as Partial<HistoryEntry> & ExportableResult;
+    return rest;
+};
+
+export function toJson(results: ExportableResult[]): string {
+    return JSON.stringify({
+        format: 'body-metrics-vision/results',
+        version: 1,
+        exportedAt: new Date().toISOString(),
+        results: results.map(withoutThumbnail),
+    }, null, 2);
+}
+
+/** One profile with its whole history, e.g. to keep a copy before deleting it. */
+export function toProfileJson(profile: Profile, history: HistoryEntry[]): string {
+    return JSON.stringify({
+        format: 'body-metrics-vision/profile',
+        version: 1,
+        exportedAt: new Date().toISOString(),
+        profile,
+        results: history.map(withoutThumbnail),
+    }, null, 2);
+}
+
+/** Plain-text summary for sharing or copying. */
+export function toShareText(result: ExportableResult): string {
+    const scheme = getBmiScheme(result.bmiScheme);
+    return [
+        `Body Metrics Vision result (${new Date(result.timestamp).toLocaleDateString()})`,
+        `Height: ${result.heightCm.toFixed(1)} cm${result.heightSource === 'user' ? ' (entered)' : ` (likely ${formatRange(result.heightRangeCm, 0)} cm)`}`,
+        `Weight: ${result.weightKg.toFixed(1)} kg (likely ${formatRange(result.weightRangeKg)} kg)`,
+        `BMI: ${result.bmi.toFixed(1)}, ${result.category} (${scheme.name})`,
+        `Method: ${methodLabels[result.method]}, ${result.accuracy} accuracy`,
+        'AI estimate from a photo, not medical advice.',
+    ].join('\n');
+}
+
+export const exportFileName = (kind: 'result' | 'history' | 'profile', extension: string, timestamp = Date.now()) =>
+    `body-metrics-${kind}-${new Date(timestamp).toISOString().slice(0, 10)}.${extension}`;
+
+export function downloadBlob(blob: Blob, fileName: string): void {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    // Revoking right away can cancel the download in some browsers.
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
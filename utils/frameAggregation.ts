@@ -0,0 +1,101 @@
+import type { AccuracyLevel, Circumferences, FrameConsistency, MetricsEstimate } from '../types';
+
+// Relative spread between frames of one sequence. The person barely moves, so anything beyond a
+// percent or two of height is the model being inconsistent, not the body changing.
+const HIGH_CONSISTENCY = { height: 0.01, weight: 0.03 };
+const MEDIUM_CONSISTENCY = { height: 0.025, weight: 0.06 };
+
+/** Frames further than this many (scaled) median absolute deviations from the median are outliers. */
+const OUTLIER_MADS = 3;
+/** Lower bound for the deviation, relative to the median, so near-identical frames don't turn a tiny wobble into an outlier. */
+const MIN_RELATIVE_DEVIATION = 0.005;
+// Makes the MAD comparable to a standard deviation for normally distributed values.
+const MAD_SCALE = 1.4826;
+
+const ACCURACY_ORDER: AccuracyLevel[] = ['low', 'medium', 'high'];
+
+export function median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/** Marks the values that sit within `OUTLIER_MADS` robust deviations of the median. */
+export function inlierMask(values: number[]): boolean[] {
+    const center = median(values);
+    const deviation = Math.max(MAD_SCALE * median(values.map(v => Math.abs(v - center))), MIN_RELATIVE_DEVIATION * Math.abs(center));
+    return values.map(v => Math.abs(v - center) <= OUTLIER_MADS * deviation);
+}
+
+const spread = (values: number[]) => Math.max(...values) - Math.min(...values);
+
+export function computeFrameConsistency(kept: MetricsEstimate[], analyzedFrames: number, heightCm: number, weightKg: number): FrameConsistency {
+    const heightSpreadCm = spread(kept.map(e => e.heightCm));
+    const weightSpreadKg = spread(kept.map(e => e.weightKg));
+    const heightRatio = heightSpreadCm / heightCm;
+    const weightRatio = weightSpreadKg / weightKg;
+
+    let level: FrameConsistency['level'] = 'low';
+    if (heightRatio <= HIGH_CONSISTENCY.height && weightRatio <= HIGH_CONSISTENCY.weight) {
+        level = 'high';
+    } else if (heightRatio <= MEDIUM_CONSISTENCY.height && weightRatio <= MEDIUM_CONSISTENCY.weight) {
+        level = 'medium';
+    }
+    return { level, analyzedFrames, usedFrames: kept.length, heightSpreadCm, weightSpreadKg };
+}
+
+function medianCircumferences(estimates: MetricsEstimate[]): Circumferences | undefined {
+    const circumferences: Circumferences = {};
+    for (const key of ['waistCm', 'hipCm', 'neckCm'] as const) {
+        const values = estimates.flatMap(e => e.circumferences?.[key] !== undefined ? [e.circumferences[key]!] : []);
+        if (values.length > 0) circumferences[key] = median(values);
+    }
+    return Object.keys(circumferences).length > 0 ? circumferences : undefined;
+}
+
+/**
+ * Combines the estimates of several frames of the same sequence into one: drops frames whose height
+ * or weight is an outlier, then takes the median of the rest. Ranges are widened to cover every
+ * kept frame, and landmarks come from the frame closest to the median, whose index is returned
+ * so the caller can show that frame.
+ */
+export function aggregateFrameEstimates(estimates: MetricsEstimate[]): { estimate: MetricsEstimate; representativeIndex: number } {
+    if (estimates.length === 0) {
+        throw new Error('No frame estimates to aggregate.');
+    }
+    const heightInliers = inlierMask(estimates.map(e => e.heightCm));
+    const weightInliers = inlierMask(estimates.map(e => e.weightKg));
+    let keptIndices = estimates.map((_, i) => i).filter(i => heightInliers[i] && weightInliers[i]);
+    // Height and weight can each reject a different half; fall back to everything rather than nothing.
+    if (keptIndices.length === 0) keptIndices = estimates.map((_, i) => i);
+    const kept = keptIndices.map(i => estimates[i]);
+
+    const heightCm = median(kept.map(e => e.heightCm));
+    const weightKg = median(kept.map(e => e.weightKg));
+    const representativeIndex = keptIndices.reduce((best, i) =>
+        Math.abs(estimates[i].heightCm - heightCm) < Math.abs(estimates[best].heightCm - heightCm) ? i : best);
+    const representative = estimates[representativeIndex];
+    const accuracy = ACCURACY_ORDER[Math.round(median(kept.map(e => ACCURACY_ORDER.indexOf(e.accuracy))))];
+
+    const estimate: MetricsEstimate = {
+        ...representative,
+        heightCm,
+        weightKg,
+        heightRangeCm: {
+            lower: Math.min(median(kept.map(e => e.heightRangeCm.lower)), ...kept.map(e => e.heightCm)),
+            upper: Math.max(median(kept.map(e => e.heightRangeCm.upper)), ...kept.map(e => e.heightCm)),
+        },
+        weightRangeKg: {
+            lower: Math.min(median(kept.map(e => e.weightRangeKg.lower)), ...kept.map(e => e.weightKg)),
+            upper: Math.max(median(kept.map(e => e.weightRangeKg.upper)), ...kept.map(e => e.weightKg)),
+        },
+        accuracy,
+        circumferences: medianCircumferences(kept),
+        // Only a fresh analysis of every frame counts as fresh.
+        cachedAt: estimates.every(e => e.cachedAt !== undefined) ? Math.min(...estimates.map(e => e.cachedAt!)) : undefined,
+    };
+    if (estimates.length > 1) {
+        estimate.frameConsistency = computeFrameConsistency(kept, estimates.length, heightCm, weightKg);
+    }
+    return { estimate, representativeIndex };
+}
@@ -0,0 +1,102 @@
+import { laplacianVariance, toGrayscale } from './imageQuality';
+
+// Motion is judged on a tiny copy so it can run several times a second; focus needs a little more detail.
+const MOTION_SAMPLE_SIZE = 160;
+const SHARPNESS_SAMPLE_SIZE = 320;
+
+export interface FrameSample {
+    gray: Float32Array;
+    width: number;
+    height: number;
+}
+
+type FrameSource = HTMLVideoElement | ImageBitmap;
+
+const sourceSize = (source: FrameSource) => source instanceof HTMLVideoElement
+    ? { width: source.videoWidth, height: source.videoHeight }
+    : { width: source.width, height: source.height };
+
+/** Draws a downscaled grayscale copy of the current frame. `canvas` is reused between calls to avoid allocations. */
+export function sampleFrame(source: FrameSource, canvas: HTMLCanvasElement, maxSize = MOTION_SAMPLE_SIZE): FrameSample {
+    const { width: sourceWidth, height: sourceHeight } = sourceSize(source);
+    const scale = Math.min(1, maxSize / Math.max(sourceWidth, sourceHeight));
+    const width = Math.max(1, Math.round(sourceWidth * scale));
+    const height = Math.max(1, Math.round(sourceHeight * scale));
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext('2d', { willReadFrequently: true });
+    if (!context) {
+        throw new Error('Canvas 2D context unavailable');
+    }
+    context.drawImage(source, 0, 0, width, height);
+    return { gray: toGrayscale(context.getImageData(0, 0, width, height).data), width, height };
+}
+
+/** Mean absolute brightness change between two samples, from 0 (identical) to 1. Samples of different sizes count as full motion. */
+export function frameMotion(a: FrameSample, b: FrameSample): number {
+    if (a.width !== b.width || a.height !== b.height) return 1;
+    let sum = 0;
+    for (let i = 0; i < a.gray.length; i++) {
+        sum += Math.abs(a.gray[i] - b.gray[i]);
+    }
+    return sum / a.gray.length / 255;
+}
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Grabs `count` frames `intervalMs` apart and returns the sharpest at full resolution.
+ * A short burst rides out a shaky hand or a blink of motion blur. The caller must `close()` the result.
+ */
+export async function captureSharpestFrame(video: HTMLVideoElement, count: number, intervalMs: number): Promise<ImageBitmap> {
+    const canvas = document.createElement('canvas');
+    let best: { frame: ImageBitmap; sharpness: number } | null = null;
+    for (let i = 0; i < count; i++) {
+        if (i > 0) await wait(intervalMs);
+        const frame = await createImageBitmap(video);
+        const sample = sampleFrame(frame, canvas, SHARPNESS_SAMPLE_SIZE);
+        const sharpness = laplacianVariance(sample.gray, sample.width, sample.height);
+        if (!best || sharpness > best.sharpness) {
+            best?.frame.close();
+            best = { frame, sharpness };
+        } else {
+            frame.close();
+        }
+    }
+    if (!best) {
+        throw new Error("Couldn't capture a frame from the camera.");
+    }
+    return best.frame;
+}
+
+export interface SequenceOptions {
+    durationMs: number;
+    /** Frames returned, one per equal slice of the sequence. */
+    frameCount: number;
+    /** Candidates grabbed per slice; the sharpest one is kept. */
+    samplesPerFrame: number;
+}
+
+/**
+ * Samples a frame sequence from the live preview over `durationMs`. Nothing is recorded: the time is
+ * split into `frameCount` slices and the sharpest frame of each is kept, so only a handful of full-size
+ * frames are ever in memory. The caller must `close()` every returned frame.
+ */
+export async function sampleSharpFrames(video: HTMLVideoElement, options: SequenceOptions, onProgress?: (elapsedMs: number) => void): Promise<ImageBitmap[]> {
+    const { durationMs, frameCount, samplesPerFrame } = options;
+    const sliceMs = durationMs / frameCount;
+    const intervalMs = sliceMs / samplesPerFrame;
+    const startedAt = Date.now();
+    const frames: ImageBitmap[] = [];
+    try {
+        for (let i = 0; i < frameCount; i++) {
+            if (i > 0) await wait(intervalMs);
+            frames.push(await captureSharpestFrame(video, samplesPerFrame, intervalMs));
+            onProgress?.(Date.now() - startedAt);
+        }
+    } catch (err) {
+        frames.forEach(frame => frame.close());
+        throw err;
+    }
+    return frames;
+}
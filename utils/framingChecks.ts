@@ -0,0 +1,202 @@
+import type { BoundingBox, CaptureMethod, CaptureView, ReferenceObject } from '../types';
+
+/** One body keypoint in normalized frame coordinates (0..1 from the top left of the unmirrored frame). */
+export interface PoseKeypoint {
+    x: number;
+    y: number;
+    /** How likely the point is actually in view, from 0 to 1. */
+    visibility: number;
+}
+
+/** The 33 keypoints of one person, in BlazePose order. */
+export type Pose = PoseKeypoint[];
+
+export type FramingCheckId = 'full_body' | 'arms_level' | 'reference_visible' | 'camera_level';
+
+export interface FramingCheck {
+    id: FramingCheckId;
+    label: string;
+    passed: boolean;
+    /** What to do about it, short enough to show on the preview and to speak aloud. */
+    hint: string;
+}
+
+export interface FramingInput {
+    /** Everyone detected in the frame, in any order. */
+    poses: Pose[];
+    /** Frame width divided by height, to compare angles in pixels rather than normalized units. */
+    aspectRatio: number;
+    method: CaptureMethod;
+    reference?: ReferenceObject;
+    view: CaptureView;
+    /** Share of paper-like pixels around the feet, see `paperCoverageNearFeet`. Only measured for paper references. */
+    paperCoverage?: number;
+    /** Device tilt from the orientation sensor, in degrees. Missing on devices without one. */
+    tilt?: { beta: number; gamma: number };
+}
+
+// BlazePose keypoint indices.
+const HEAD = [0, 1, 2, 3, 4, 5, 6, 7, 8];
+const LEFT_SHOULDER = 11;
+const RIGHT_SHOULDER = 12;
+const LEFT_WRIST = 15;
+const RIGHT_WRIST = 16;
+const FEET = [27, 28, 29, 30, 31, 32];
+
+const MIN_VISIBILITY = 0.5;
+/** Keypoints closer than this to an edge are probably cut off, even if the model places them inside. */
+const EDGE_MARGIN = 0.02;
+/** Below this share of the frame height the person is too small for a useful measurement. */
+export const MIN_BODY_SPAN = 0.45;
+/** Largest angle between a shoulder-to-wrist line and the horizontal that still counts as a 'T'. */
+const MAX_ARM_ANGLE_DEG = 20;
+/** Paper is bright and grey-white; this share of the area around the feet is about a sheet 2-3 m away. */
+const MIN_PAPER_COVERAGE = 0.02;
+const PAPER_MIN_BRIGHTNESS = 170;
+const PAPER_MAX_CHROMA = 40;
+/** Tilt beyond this makes heights at the top and bottom of the frame scale differently. */
+const MAX_TILT_DEG = 10;
+
+const PAPER_REFERENCES = new Set(['a4_paper', 'us_letter']);
+
+const isVisible = (point: PoseKeypoint | undefined) => !!point && point.visibility >= MIN_VISIBILITY;
+const isInside = (point: PoseKeypoint) => point.x >= EDGE_MARGIN && point.x <= 1 - EDGE_MARGIN && point.y >= EDGE_MARGIN && point.y <= 1 - EDGE_MARGIN;
+
+function verticalSpan(pose: Pose): number {
+    const ys = pose.filter(isVisible).map(point => point.y);
+    return ys.length > 0 ? Math.max(...ys) - Math.min(...ys) : 0;
+}
+
+/** The box around a pose's visible keypoints. Undefined when fewer than two are visible. */
+export function poseBounds(pose: Pose): BoundingBox | undefined {
+    const visible = pose.filter(isVisible);
+    if (visible.length < 2) return undefined;
+    const xs = visible.map(point => point.x);
+    const ys = visible.map(point => point.y);
+    const x = Math.min(...xs);
+    const y = Math.min(...ys);
+    return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+}
+
+/** The person being measured: the one who takes up the most height, i.e. the one nearest the camera. */
+export function findSubject(poses: Pose[]): Pose | undefined {
+    return poses.reduce<Pose | undefined>((best, pose) => !best || verticalSpan(pose) > verticalSpan(best) ? pose : best, undefined);
+}
+
+function checkFullBody(pose: Pose | undefined, label = 'Whole body in frame'): FramingCheck {
+    const check = (passed: boolean, hint: string): FramingCheck => ({ id: 'full_body', label, passed, hint });
+    if (!pose) return check(false, 'Step into the frame.');
+    const head = HEAD.map(i => pose[i]).filter(isVisible);
+    const feet = FEET.map(i => pose[i]);
+    if (!feet.every(point => isVisible(point) && isInside(point))) {
+        return check(false, 'Step back so your feet are in the frame.');
+    }
+    if (head.length === 0 || !head.every(isInside)) {
+        return check(false, 'Step back or tilt the camera up so your head is in the frame.');
+    }
+    if (verticalSpan(pose) < MIN_BODY_SPAN) {
+        return check(false, 'Step a little closer to the camera.');
+    }
+    return check(true, 'Whole body is in the frame.');
+}
+
+function armAngleDeg(shoulder: PoseKeypoint, wrist: PoseKeypoint, aspectRatio: number): number {
+    const dx = Math.abs(wrist.x - shoulder.x) * aspectRatio;
+    const dy = Math.abs(wrist.y - shoulder.y);
+    return Math.atan2(dy, dx) * 180 / Math.PI;
+}
+
+function checkArmsLevel(pose: Pose | undefined, aspectRatio: number): FramingCheck {
+    const check = (passed: boolean, hint: string): FramingCheck => ({ id: 'arms_level', label: 'Arms straight out', passed, hint });
+    const arms = [[LEFT_SHOULDER, LEFT_WRIST], [RIGHT_SHOULDER, RIGHT_WRIST]].map(([s, w]) => [pose?.[s], pose?.[w]] as const);
+    if (!pose || !arms.every(([shoulder, wrist]) => isVisible(shoulder) && isVisible(wrist))) {
+        return check(false, 'Raise both arms out to your sides.');
+    }
+    const level = arms.every(([shoulder, wrist]) => armAngleDeg(shoulder!, wrist!, aspectRatio) <= MAX_ARM_ANGLE_DEG);
+    return level ? check(true, 'Arms are level.') : check(false, 'Hold your arms level with your shoulders.');
+}
+
+function checkReference(input: FramingInput, subject: Pose | undefined): FramingCheck | null {
+    const { reference, poses } = input;
+    if (input.method !== 'paper' || !reference) return null;
+    if (reference.id === 'companion') {
+        const companion = poses.filter(pose => pose !== subject);
+        const best = findSubject(companion);
+        const inFrame = !!best && checkFullBody(best).passed;
+        return {
+            id: 'reference_visible',
+            label: 'Companion in frame',
+            passed: inFrame,
+            hint: inFrame ? 'Your companion is in the frame.' : 'Your companion needs to stand beside you, head to feet in the frame.',
+        };
+    }
+    // Cards, doors and tiles don't stand out from the scene well enough to look for them reliably.
+    if (!PAPER_REFERENCES.has(reference.id) || input.paperCoverage === undefined) return null;
+    const passed = input.paperCoverage >= MIN_PAPER_COVERAGE;
+    return {
+        id: 'reference_visible',
+        label: 'Paper by your feet',
+        passed,
+        hint: passed ? 'The paper is visible.' : 'Put the paper flat on the floor next to your feet.',
+    };
+}
+
+function checkCameraLevel(tilt: FramingInput['tilt']): FramingCheck | null {
+    if (!tilt) return null;
+    // Held upright in portrait, a phone reads about 90° front-to-back and 0° side-to-side.
+    const passed = Math.abs(tilt.beta - 90) <= MAX_TILT_DEG && Math.abs(tilt.gamma) <= MAX_TILT_DEG;
+    return {
+        id: 'camera_level',
+        label: 'Camera level',
+        passed,
+        hint: passed ? 'The camera is level.' : 'Hold the camera upright and level.',
+    };
+}
+
+/** Checks the live preview against what the chosen method needs. Every check must pass for a good capture. */
+export function evaluateFraming(input: FramingInput): FramingCheck[] {
+    const subject = findSubject(input.poses);
+    const checks: (FramingCheck | null)[] = [
+        checkFullBody(subject),
+        input.method === 'pose' && input.view === 'front' ? checkArmsLevel(subject, input.aspectRatio) : null,
+        checkReference(input, subject),
+        checkCameraLevel(input.tilt),
+    ];
+    return checks.filter((check): check is FramingCheck => check !== null);
+}
+
+/** Whether the paper reference needs `paperCoverageNearFeet` measured for `evaluateFraming`. */
+export function needsPaperCoverage(method: CaptureMethod, reference?: ReferenceObject): boolean {
+    return method === 'paper' && !!reference && PAPER_REFERENCES.has(reference.id);
+}
+
+/**
+ * Share of bright, grey-white pixels in a box around the feet, as a cheap stand-in for "the paper is there".
+ * A white floor or white socks fool it, so it only ever nudges the user; the model still looks for the paper itself.
+ */
+export function paperCoverageNearFeet(image: { data: Uint8ClampedArray; width: number; height: number }, pose: Pose): number {
+    const feet = FEET.map(i => pose[i]).filter(isVisible);
+    if (feet.length === 0) return 0;
+    const xs = feet.map(point => point.x);
+    const ys = feet.map(point => point.y);
+    const footWidth = Math.max(...xs) - Math.min(...xs);
+    const clamp = (value: number) => Math.min(1, Math.max(0, value));
+    const left = Math.floor(clamp(Math.min(...xs) - footWidth - 0.1) * image.width);
+    const right = Math.ceil(clamp(Math.max(...xs) + footWidth + 0.1) * image.width);
+    const top = Math.floor(clamp(Math.min(...ys) - 0.03) * image.height);
+    const bottom = Math.ceil(clamp(Math.max(...ys) + 0.1) * image.height);
+
+    let paper = 0;
+    let total = 0;
+    for (let y = top; y < bottom; y++) {
+        for (let x = left; x < right; x++) {
+            const i = (y * image.width + x) * 4;
+            const r = image.data[i];
+            const g = image.data[i + 1];
+            const b = image.data[i + 2];
+            if (Math.min(r, g, b) >= PAPER_MIN_BRIGHTNESS && Math.max(r, g, b) - Math.min(r, g, b) <= PAPER_MAX_CHROMA) paper++;
+            total++;
+        }
+    }
+    return total > 0 ? paper / total : 0;
+}
@@ -0,0 +1,4 @@
+/** A random unique id, with a fallback for browsers without `crypto.randomUUID` (e.g. plain HTTP). */
+export const createId = () => (typeof crypto !== 'undefined' && 'randomUUID' in crypto)
+    ? crypto.randomUUID()
+    : `${Date.now()}-${Math.random().toString(16).slice(2)}`;
@@ -0,0 +1,23 @@
+export const loadImage = (src: string): Promise<HTMLImageElement> => {
+    return new Promise((resolve, reject) => {
+        const img = new Image();
+        img.onload = () => resolve(img);
+        img.onerror = () => reject(new Error("Couldn't decode image"));
+        img.src = src;
+    });
+};
+
+/** Downscales a base64 image to fit within `maxSize` pixels and returns it as base64 JPEG. */
+export async function createThumbnail(base64Image: string, mimeType = 'image/jpeg', maxSize = 128): Promise<string> {
+    const img = await loadImage(`data:${mimeType};base64,${base64Image}`);
+    const scale = Math.min(1, maxSize / Math.max(img.naturalWidth, img.naturalHeight));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(img.naturalWidth * scale);
+    canvas.height = Math.round(img.naturalHeight * scale);
+    const context = canvas.getContext('2d');
+    if (!context) {
+        throw new Error('Canvas 2D context unavailable');
+    }
+    context.drawImage(img, 0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL('image/jpeg', 0.7).split(',')[1];
+}
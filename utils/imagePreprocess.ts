@@ -0,0 +1,196 @@
+import { loadImage } from './image';
+
+export interface PreprocessedImage {
+    /** Re-encoded image without any metadata, base64 without the data URI prefix. */
+    base64Image: string;
+    mimeType: string;
+    width: number;
+    height: number;
+    /** The format the file really was, detected from its bytes rather than its name. */
+    sourceMimeType: string;
+}
+
+export interface PreprocessOptions {
+    /** Longest side of the output in pixels. */
+    maxDimension?: number;
+    quality?: number;
+}
+
+// Large enough for the model to see fine detail like paper corners, small enough to upload quickly.
+const DEFAULT_MAX_DIMENSION = 1600;
+const DEFAULT_QUALITY = 0.9;
+const OUTPUT_MIME_TYPE = 'image/jpeg';
+
+const DECODABLE_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/heic', 'image/avif'];
+
+const FRIENDLY_NAMES: Record<string, string> = {
+    'image/gif': 'GIF',
+    'image/bmp': 'BMP',
+    'image/tiff': 'TIFF',
+    'image/heic': 'HEIC',
+    'image/avif': 'AVIF',
+};
+
+const ascii = (bytes: Uint8Array, start: number, length: number) =>
+    String.fromCharCode(...bytes.subarray(start, start + length));
+
+/** Identifies the image format from its magic bytes. Returns null for anything unrecognized. */
+export function detectMimeType(bytes: Uint8Array): string | null {
+    if (bytes.length < 12) return null;
+    if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return 'image/jpeg';
+    if (bytes[0] === 0x89 && ascii(bytes, 1, 3) === 'PNG') return 'image/png';
+    if (ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 4) === 'WEBP') return 'image/webp';
+    if (ascii(bytes, 0, 4) === 'GIF8') return 'image/gif';
+    if (ascii(bytes, 0, 2) === 'BM') return 'image/bmp';
+    if (ascii(bytes, 0, 4) === 'II*\0' || ascii(bytes, 0, 4) === 'MM\0*') return 'image/tiff';
+    if (ascii(bytes, 4, 4) === 'ftyp') {
+        const brand = ascii(bytes, 8, 4);
+        if (['heic', 'heix', 'hevc', 'heim', 'heis', 'mif1', 'msf1'].includes(brand)) return 'image/heic';
+        if (brand === 'avif' || brand === 'avis') return 'image/avif';
+    }
+    return null;
+}
+
+/**
+ * Reads the EXIF orientation (1-8) from a JPEG. Returns 1 when there is none.
+ * Only the APP1 segment is parsed; this is not a general EXIF reader.
+ */
+export function readExifOrientation(bytes: Uint8Array): number {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    let offset = 2;
+    while (offset + 4 <= view.byteLength) {
+        const marker = view.getUint16(offset);
+        if ((marker & 0xff00) !== 0xff00 || marker === 0xffda) break; // Start of scan: no more metadata.
+        const segmentLength = view.getUint16(offset + 2);
+        if (marker === 0xffe1 && ascii(bytes, offset + 4, 4) === 'Exif') {
+            const tiff = offset + 10;
+            if (tiff + 8 > view.byteLength) return 1;
+            const little = view.getUint16(tiff) === 0x4949;
+            const ifd = tiff + view.getUint32(tiff + 4, little);
+            if (ifd + 2 > view.byteLength) return 1;
+            const entries = view.getUint16(ifd, little);
+            for (let i = 0; i < entries; i++) {
+                const entry = ifd + 2 + i * 12;
+                if (entry + 10 > view.byteLength) break;
+                if (view.getUint16(entry, little) === 0x0112) {
+                    const orientation = view.getUint16(entry + 8, little);
+                    return orientation >= 1 && orientation <= 8 ? orientation : 1;
+                }
+            }
+            return 1;
+        }
+        offset += 2 + segmentLength;
+    }
+    return 1;
+}
+
+/** Pixel size stored in a JPEG's frame header, before any orientation is applied. */
+function readJpegSize(bytes: Uint8Array): { width: number; height: number } | null {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    let offset = 2;
+    while (offset + 9 <= view.byteLength) {
+        const marker = view.getUint16(offset);
+        if ((marker & 0xff00) !== 0xff00) return null;
+        // SOF0-SOF15, excluding DHT (C4), JPG (C8) and DAC (CC).
+        if (marker >= 0xffc0 && marker <= 0xffcf && ![0xffc4, 0xffc8, 0xffcc].includes(marker)) {
+            return { height: view.getUint16(offset + 5), width: view.getUint16(offset + 7) };
+        }
+        offset += 2 + view.getUint16(offset + 2);
+    }
+    return null;
+}
+
+async function decode(blob: Blob): Promise<CanvasImageSource & { width: number; height: number }> {
+    if (typeof createImageBitmap === 'function') {
+        // 'from-image' honours EXIF orientation in current browsers.
+        return createImageBitmap(blob, { imageOrientation: 'from-image' });
+    }
+    const url = URL.createObjectURL(blob);
+    try {
+        const img = await loadImage(url);
+        return Object.assign(img, { width: img.naturalWidth, height: img.naturalHeight });
+    } finally {
+        URL.revokeObjectURL(url);
+    }
+}
+
+/** Canvas transform for EXIF orientations 2-8, applied to a canvas already sized for the rotated output. */
+function applyOrientation(context: CanvasRenderingContext2D, orientation: number, width: number, height: number) {
+    switch (orientation) {
+        case 2: context.transform(-1, 0, 0, 1, width, 0); break;
+        case 3: context.transform(-1, 0, 0, -1, width, height); break;
+        case 4: context.transform(1, 0, 0, -1, 0, height); break;
+        case 5: context.transform(0, 1, 1, 0, 0, 0); break;
+        case 6: context.transform(0, 1, -1, 0, width, 0); break;
+        case 7: context.transform(0, -1, -1, 0, width, height); break;
+        case 8: context.transform(0, -1, 1, 0, 0, height); break;
+    }
+}
+
+/**
+ * Turns any supported photo into an upright, downsized JPEG with all metadata (including GPS) removed.
+ * Re-encoding through a canvas is what strips the metadata; nothing from the original file is copied over.
+ */
+export async function preprocessImage(blob: Blob, options: PreprocessOptions = {}): Promise<PreprocessedImage> {
+    const { maxDimension = DEFAULT_MAX_DIMENSION, quality = DEFAULT_QUALITY } = options;
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+    const sourceMimeType = detectMimeType(bytes);
+
+    if (!sourceMimeType) {
+        throw new Error('This file is not a recognized image. Please use a JPEG, PNG or WebP photo.');
+    }
+    if (!DECODABLE_TYPES.includes(sourceMimeType)) {
+        throw new Error(`${FRIENDLY_NAMES[sourceMimeType] ?? 'This'} images are not supported. Please use a JPEG, PNG or WebP photo.`);
+    }
+
+    let source: CanvasImageSource & { width: number; height: number };
+    try {
+        source = await decode(new Blob([bytes], { type: sourceMimeType }));
+    } catch {
+        throw new Error(sourceMimeType === 'image/heic'
+            ? "This browser can't open HEIC photos. Change your camera to 'Most Compatible' or export the photo as JPEG."
+            : "The image couldn't be opened. It may be damaged; please try another photo.");
+    }
+
+    // Browsers normally apply EXIF orientation while decoding. If a sideways orientation was
+    // not applied (width and height still match the raw frame), rotate the pixels ourselves.
+    const orientation = sourceMimeType === 'image/jpeg' ? readExifOrientation(bytes) : 1;
+    const rawSize = sourceMimeType === 'image/jpeg' ? readJpegSize(bytes) : null;
+    const needsManualRotation = orientation >= 5 && rawSize !== null
+        && source.width === rawSize.width && source.height === rawSize.height && rawSize.width !== rawSize.height;
+
+    const orientedWidth = needsManualRotation ? source.height : source.width;
+    const orientedHeight = needsManualRotation ? source.width : source.height;
+    const scale = Math.min(1, maxDimension / Math.max(orientedWidth, orientedHeight));
+    const width = Math.max(1, Math.round(orientedWidth * scale));
+    const height = Math.max(1, Math.round(orientedHeight * scale));
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext('2d');
+    if (!context) {
+        throw new Error('Canvas 2D context unavailable');
+    }
+    // JPEG has no alpha channel; flatten transparent PNG/WebP areas onto white instead of black.
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, width, height);
+    if (needsManualRotation) {
+        applyOrientation(context, orientation, width, height);
+        context.drawImage(source, 0, 0, height, width);
+    } else {
+        context.drawImage(source, 0, 0, width, height);
+    }
+    if ('close' in source && typeof source.close === 'function') {
+        source.close();
+    }
+
+    const dataUrl = canvas.toDataURL(OUTPUT_MIME_TYPE, quality);
+    return {
+        base64Image: dataUrl.split(',')[1],
+        mimeType: OUTPUT_MIME_TYPE,
+        width,
+        height,
+        sourceMimeType,
+    };
+}
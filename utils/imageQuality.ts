@@ -0,0 +1,130 @@
+import type { ImageQuality, QualityIssue } from '../types';
+import { measureSubjectHeight } from '../services/subjectTracker';
+import { MIN_BODY_SPAN } from './framingChecks';
+import { loadImage } from './image';
+
+// Analysis runs on a downscaled copy; blur and exposure statistics are stable at this size.
+const ANALYSIS_SIZE = 512;
+
+const THRESHOLDS = {
+    /** Variance of the Laplacian below which edges are too soft to measure reliably. */
+    minSharpness: 60,
+    minBrightness: 60,
+    maxBrightness: 200,
+    /** Share of pixels crushed to black or blown to white. */
+    maxClipped: 0.25,
+    minContrast: 25,
+    /** Shorter side in source pixels. */
+    minResolution: 480,
+    /** Width / height. Anything wider than square wastes most of the frame beside a standing person. */
+    maxAspectRatio: 1.05,
+    /** Share of the image height the person should span; the same bar the live framing guide uses. */
+    minSubjectHeight: MIN_BODY_SPAN,
+};
+
+const ISSUE_MESSAGES: Record<QualityIssue, string> = {
+    blurry: 'Blurry: hold the camera steady or tap to focus.',
+    too_dark: 'Too dark: turn on more lights or face a window.',
+    too_bright: 'Too bright: avoid direct sunlight or a strong backlight.',
+    low_contrast: 'Washed out: the person blends into the background.',
+    low_resolution: 'Low resolution: use the original photo or move closer.',
+    landscape: 'Landscape photo: an upright (portrait) photo lets your full body fill more of the frame.',
+    subject_small: 'Person too small: step closer or zoom in so your body fills at least half the frame height.',
+};
+
+const PENALTIES: Record<QualityIssue, number> = {
+    blurry: 35,
+    too_dark: 25,
+    too_bright: 20,
+    low_contrast: 15,
+    low_resolution: 25,
+    landscape: 10,
+    subject_small: 20,
+};
+
+export const describeQualityIssue = (issue: QualityIssue) => ISSUE_MESSAGES[issue];
+
+/** Luma (0-255) of each pixel in raw RGBA data. */
+export function toGrayscale(data: Uint8ClampedArray): Float32Array {
+    const gray = new Float32Array(data.length / 4);
+    for (let i = 0; i < gray.length; i++) {
+        gray[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+    }
+    return gray;
+}
+
+/** Variance of the 4-neighbour Laplacian, a cheap and well-known focus measure. Higher is sharper. */
+export function laplacianVariance(gray: Float32Array, width: number, height: number): number {
+    let lapSum = 0;
+    let lapSqSum = 0;
+    let lapCount = 0;
+    for (let y = 1; y < height - 1; y++) {
+        for (let x = 1; x < width - 1; x++) {
+            const i = y * width + x;
+            const lap = gray[i - width] + gray[i + width] + gray[i - 1] + gray[i + 1] - 4 * gray[i];
+            lapSum += lap;
+            lapSqSum += lap * lap;
+            lapCount++;
+        }
+    }
+    const lapMean = lapCount ? lapSum / lapCount : 0;
+    return lapCount ? lapSqSum / lapCount - lapMean * lapMean : 0;
+}
+
+/**
+ * Scores raw RGBA pixels. `sourceWidth`/`sourceHeight` are the original dimensions before downscaling.
+ * `subjectHeight` is the measured share of the image height the person spans, if one was found.
+ */
+export function scorePixels(data: Uint8ClampedArray, width: number, height: number, sourceWidth: number, sourceHeight: number, subjectHeight?: number): ImageQuality {
+    const pixelCount = width * height;
+    const gray = toGrayscale(data);
+    let sum = 0;
+    let clipped = 0;
+    for (let i = 0; i < pixelCount; i++) {
+        sum += gray[i];
+        if (gray[i] < 10 || gray[i] > 245) clipped++;
+    }
+    const brightness = sum / pixelCount;
+
+    let varianceSum = 0;
+    for (let i = 0; i < pixelCount; i++) {
+        varianceSum += (gray[i] - brightness) ** 2;
+    }
+    const contrast = Math.sqrt(varianceSum / pixelCount);
+    const sharpness = laplacianVariance(gray, width, height);
+
+    const aspectRatio = sourceWidth / sourceHeight;
+    const issues: QualityIssue[] = [];
+    if (sharpness < THRESHOLDS.minSharpness) issues.push('blurry');
+    if (brightness < THRESHOLDS.minBrightness) issues.push('too_dark');
+    else if (brightness > THRESHOLDS.maxBrightness) issues.push('too_bright');
+    else if (clipped / pixelCount > THRESHOLDS.maxClipped) issues.push(brightness < 128 ? 'too_dark' : 'too_bright');
+    if (contrast < THRESHOLDS.minContrast) issues.push('low_contrast');
+    if (Math.min(sourceWidth, sourceHeight) < THRESHOLDS.minResolution) issues.push('low_resolution');
+    if (aspectRatio > THRESHOLDS.maxAspectRatio) issues.push('landscape');
+    if (subjectHeight !== undefined && subjectHeight < THRESHOLDS.minSubjectHeight) issues.push('subject_small');
+
+    const score = Math.max(0, 100 - issues.reduce((total, issue) => total + PENALTIES[issue], 0));
+
+    return {
+        score,
+        issues,
+        metrics: { sharpness, brightness, contrast, width: sourceWidth, height: sourceHeight, aspectRatio, subjectHeight },
+    };
+}
+
+export async function assessImageQuality(base64Image: string, mimeType = 'image/jpeg'): Promise<ImageQuality> {
+    const img = await loadImage(`data:${mimeType};base64,${base64Image}`);
+    const scale = Math.min(1, ANALYSIS_SIZE / Math.max(img.naturalWidth, img.naturalHeight));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(img.naturalWidth * scale));
+    canvas.height = Math.max(1, Math.round(img.naturalHeight * scale));
+    const context = canvas.getContext('2d', { willReadFrequently: true });
+    if (!context) {
+        throw new Error('Canvas 2D context unavailable');
+    }
+    context.drawImage(img, 0, 0, canvas.width, canvas.height);
+    const { data } = context.getImageData(0, 0, canvas.width, canvas.height);
+    const subjectHeight = await measureSubjectHeight(img);
+    return scorePixels(data, canvas.width, canvas.height, img.naturalWidth, img.naturalHeight, subjectHeight);
+}
@@ -0,0 +1,57 @@
+import type { BoundingBox, GeminiAnalysisResponse, Landmarks, NormalizedPoint } from '../types';
+
+const isPoint = (p: unknown): p is NormalizedPoint =>
+    typeof p === 'object' && p !== null
+    && typeof (p as NormalizedPoint).x === 'number' && Number.isFinite((p as NormalizedPoint).x)
+    && typeof (p as NormalizedPoint).y === 'number' && Number.isFinite((p as NormalizedPoint).y);
+
+// Models occasionally overshoot the edge by a hair; anything further out is nonsense.
+const TOLERANCE = 0.05;
+
+const toPoint = (p: unknown): NormalizedPoint | undefined => {
+    if (!isPoint(p) || p.x < -TOLERANCE || p.x > 1 + TOLERANCE || p.y < -TOLERANCE || p.y > 1 + TOLERANCE) {
+        return undefined;
+    }
+    return { x: Math.min(1, Math.max(0, p.x)), y: Math.min(1, Math.max(0, p.y)) };
+};
+
+const toPoints = (points: unknown): NormalizedPoint[] =>
+    Array.isArray(points) ? points.map(toPoint).filter((p): p is NormalizedPoint => !!p) : [];
+
+/** Drops malformed or out-of-frame points. Returns undefined when nothing usable is left. */
+export function sanitizeLandmarks(raw: GeminiAnalysisResponse['landmarks']): Landmarks | undefined {
+    if (!raw || typeof raw !== 'object') return undefined;
+
+    const landmarks: Landmarks = {
+        headTop: toPoint(raw.headTop),
+        feet: toPoints(raw.feet),
+        fingertips: toPoints(raw.fingertips),
+        paperCorners: toPoints(raw.paperCorners),
+    };
+    // A partial outline is more confusing than none, so require all four corners.
+    if (landmarks.paperCorners.length !== 4) {
+        landmarks.paperCorners = [];
+    }
+
+    const isEmpty = !landmarks.headTop && !landmarks.feet.length && !landmarks.fingertips.length && !landmarks.paperCorners.length;
+    return isEmpty ? undefined : landmarks;
+}
+
+/** Clips a box to the image. Returns undefined for malformed boxes or ones that are mostly off-image. */
+export function sanitizeBoundingBox(raw: unknown): BoundingBox | undefined {
+    if (typeof raw !== 'object' || raw === null) return undefined;
+    const { x, y, width, height } = raw as Record<string, unknown>;
+    if (![x, y, width, height].every(v => typeof v === 'number' && Number.isFinite(v))) return undefined;
+    const left = Math.max(0, x as number);
+    const top = Math.max(0, y as number);
+    const right = Math.min(1, (x as number) + (width as number));
+    const bottom = Math.min(1, (y as number) + (height as number));
+    // Anything smaller than this is a stray detection, not a person the user could tap.
+    if (right - left < 0.02 || bottom - top < 0.02) return undefined;
+    return { x: left, y: top, width: right - left, height: bottom - top };
+}
+
+export function sanitizePeople(raw: GeminiAnalysisResponse['people']): BoundingBox[] {
+    if (!Array.isArray(raw)) return [];
+    return raw.map(person => sanitizeBoundingBox(person?.box)).filter((box): box is BoundingBox => !!box);
+}
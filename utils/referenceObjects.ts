@@ -0,0 +1,85 @@
+import type { AccuracyLevel, ReferenceObject, ReferenceObjectId } from '../types';
+
+export interface ReferenceObjectInfo {
+    id: ReferenceObjectId;
+    label: string;
+    /** Fixed size in centimeters. Missing for objects whose size the user enters. */
+    size?: { heightCm: number; widthCm?: number };
+    /** What the user has to enter: both sides of a tile, or the height of a person. */
+    input?: 'tile_size' | 'person_height';
+    /** Accuracy the model is told to report when the object is clearly visible. */
+    accuracy: AccuracyLevel;
+    /** Whether the object has four corners the model can outline on the photo. */
+    hasCorners: boolean;
+}
+
+// Listed in the order the picker shows them. Sizes are portrait (height is the longer side).
+export const REFERENCE_OBJECTS: ReferenceObjectInfo[] = [
+    { id: 'a4_paper', label: 'A4 paper', size: { heightCm: 29.7, widthCm: 21.0 }, accuracy: 'high', hasCorners: true },
+    { id: 'us_letter', label: 'US Letter paper', size: { heightCm: 27.94, widthCm: 21.59 }, accuracy: 'high', hasCorners: true },
+    // ISO/IEC 7810 ID-1: bank cards, most ID cards and driving licences. Small, so the scale is coarser.
+    { id: 'id1_card', label: 'Bank or ID card', size: { heightCm: 8.56, widthCm: 5.398 }, accuracy: 'medium', hasCorners: true },
+    // 80 in is the common interior door height; widths vary too much to be useful.
+    { id: 'interior_door', label: 'Interior door', size: { heightCm: 203.2 }, accuracy: 'medium', hasCorners: true },
+    { id: 'floor_tile', label: 'Floor tile', input: 'tile_size', accuracy: 'high', hasCorners: true },
+    { id: 'companion', label: 'Person of known height', input: 'person_height', accuracy: 'medium', hasCorners: false },
+];
+
+export const DEFAULT_REFERENCE_OBJECT: ReferenceObject = { id: 'a4_paper', heightCm: 29.7, widthCm: 21.0 };
+
+// Anything outside these is a typo rather than a real tile or person.
+const TILE_SIDE_CM: [number, number] = [5, 150];
+const PERSON_HEIGHT_CM: [number, number] = [120, 230];
+
+const inRange = (value: unknown, [min, max]: [number, number]): value is number =>
+    typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max;
+
+export function getReferenceObjectInfo(id: ReferenceObjectId): ReferenceObjectInfo {
+    return REFERENCE_OBJECTS.find(info => info.id === id) ?? REFERENCE_OBJECTS[0];
+}
+
+/**
+ * Builds a reference object from an id and, for tiles and companions, the size the user entered.
+ * Standard objects always get the catalog size, whatever was passed. Returns null when the entered size is missing or implausible.
+ */
+export function createReferenceObject(id: ReferenceObjectId, entered: { heightCm?: number; widthCm?: number } = {}): ReferenceObject | null {
+    const info = REFERENCE_OBJECTS.find(candidate => candidate.id === id);
+    if (!info) return null;
+    if (info.size) return { id, ...info.size };
+    if (info.input === 'tile_size') {
+        if (!inRange(entered.heightCm, TILE_SIDE_CM) || !inRange(entered.widthCm, TILE_SIDE_CM)) return null;
+        // Store tiles portrait like the catalog, so 30x60 and 60x30 are the same reference.
+        return { id, heightCm: Math.max(entered.heightCm, entered.widthCm), widthCm: Math.min(entered.heightCm, entered.widthCm) };
+    }
+    return inRange(entered.heightCm, PERSON_HEIGHT_CM) ? { id, heightCm: entered.heightCm } : null;
+}
+
+/** Validates an untrusted reference object, e.g. from a request body. */
+export function sanitizeReferenceObject(raw: unknown): ReferenceObject | undefined {
+    if (typeof raw !== 'object' || raw === null) return undefined;
+    const { id, heightCm, widthCm } = raw as Record<string, unknown>;
+    return createReferenceObject(id as ReferenceObjectId, { heightCm: heightCm as number, widthCm: widthCm as number }) ?? undefined;
+}
+
+const formatCm = (value: number) => `${Number(value.toFixed(2))}`;
+
+/** The size as shown to the user and the model, e.g. "29.7 × 21 cm" or "175 cm tall". */
+export function formatReferenceSize(reference: ReferenceObject): string {
+    return reference.widthCm !== undefined
+        ? `${formatCm(reference.heightCm)} × ${formatCm(reference.widthCm)} cm`
+        : `${formatCm(reference.heightCm)} cm tall`;
+}
+
+/** Compact form for URLs: the id, plus the entered size for tiles (`floor_tile:60x30`) and companions (`companion:175`). */
+export function formatReferenceParam(reference: ReferenceObject): string {
+    if (getReferenceObjectInfo(reference.id).size) return reference.id;
+    return reference.widthCm !== undefined
+        ? `${reference.id}:${reference.heightCm}x${reference.widthCm}`
+        : `${reference.id}:${reference.heightCm}`;
+}
+
+export function parseReferenceParam(param: string): ReferenceObject | null {
+    const [id, size = ''] = param.split(':');
+    const [heightCm, widthCm] = size.split('x').map(value => value ? parseFloat(value) : undefined);
+    return createReferenceObject(id as ReferenceObjectId, { heightCm, widthCm });
+}
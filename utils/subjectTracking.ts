@@ -0,0 +1,51 @@
+import type { BoundingBox } from '../types';
+import { poseBounds, type Pose } from './framingChecks';
+
+// Below this overlap a pose belongs to someone else, or the subject wasn't found in that frame.
+const MIN_OVERLAP = 0.2;
+
+const center = (box: BoundingBox) => ({ x: box.x + box.width / 2, y: box.y + box.height / 2 });
+
+/** Intersection over union of two boxes, from 0 (apart) to 1 (identical). */
+export function boxOverlap(a: BoundingBox, b: BoundingBox): number {
+    const width = Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x);
+    const height = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+    if (width <= 0 || height <= 0) return 0;
+    const intersection = width * height;
+    return intersection / (a.width * a.height + b.width * b.height - intersection);
+}
+
+const clamp = (value: number, max: number) => Math.min(Math.max(0, value), max);
+
+/**
+ * Follows the subject picked on the first frame of a sequence through the others. The picked box moves
+ * with the subject's pose, found in each frame by its overlap with where they were in the frame before.
+ * A frame without a match, or that couldn't be checked (`null`), keeps the last box.
+ */
+export function trackSubject(picked: BoundingBox, framePoses: (Pose[] | null)[]): BoundingBox[] {
+    let box = picked;
+    // Where the subject's pose was last seen. Until then, the picked box stands in for it.
+    let anchor: BoundingBox | undefined;
+    return framePoses.map(poses => {
+        const target = anchor ?? box;
+        const match = (poses ?? [])
+            .map(poseBounds)
+            .filter((bounds): bounds is BoundingBox => !!bounds)
+            .reduce<{ bounds: BoundingBox; overlap: number } | undefined>((best, bounds) => {
+                const overlap = boxOverlap(bounds, target);
+                return !best || overlap > best.overlap ? { bounds, overlap } : best;
+            }, undefined);
+        if (!match || match.overlap < MIN_OVERLAP) return box;
+        if (anchor) {
+            const from = center(anchor);
+            const to = center(match.bounds);
+            box = {
+                ...box,
+                x: clamp(box.x + to.x - from.x, 1 - box.width),
+                y: clamp(box.y + to.y - from.y, 1 - box.height),
+            };
+        }
+        anchor = match.bounds;
+        return box;
+    });
+}
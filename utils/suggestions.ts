@@ -0,0 +1,139 @@
+import type { ActivityLevel, PersonalDetails, Sex, ValueRange, WeightGoal } from '../types';
+import { healthyWeightRange, type BmiScheme } from './bmi';
+import { SUGGESTION_RULES } from '../data/suggestions/v1';
+
+export type AgeBand = '18-39' | '40-64' | '65+';
+
+/** Where the measured weight sits relative to the healthy range for the measured height. */
+export type WeightStatus = 'below' | 'within' | 'above';
+
+/**
+ * When a rule applies. Every listed condition must hold; a missing condition matches anything.
+ * A condition on a detail the user hasn't given never matches, so tailored rules stay quiet until they can be tailored.
+ */
+export interface RuleConditions {
+    status?: WeightStatus[];
+    /** Inclusive lower and exclusive upper BMI bounds, for rules that must hold under every scheme. */
+    minBmi?: number;
+    maxBmi?: number;
+    /** Whether the weight estimate's own likely range already reaches the healthy range. */
+    nearHealthyRange?: boolean;
+    ageBands?: AgeBand[];
+    sexes?: Sex[];
+    activity?: ActivityLevel[];
+    goals?: WeightGoal[];
+}
+
+/**
+ * A piece of guidance. The text may use `{changeKg}`, `{lowerKg}`, `{upperKg}`, `{pace}` and `{weeks}`,
+ * which are filled in from the user's numbers.
+ */
+export interface SuggestionRule {
+    id: string;
+    when: RuleConditions;
+    text: string;
+}
+
+export interface SuggestionRuleSet {
+    /** Bumped whenever the wording or the rules change, and shown with the suggestions. */
+    version: number;
+    /** Safe pace of change in kg per week, as [slowest, fastest], for the `{weeks}` estimate. */
+    paceKgPerWeek: Record<'lose' | 'gain', [number, number]>;
+    /** The first match becomes the heading, so the last title should match everyone. */
+    titles: SuggestionRule[];
+    /** Every match is shown in order, up to `maxPoints`. Put tailored rules before general ones. */
+    points: SuggestionRule[];
+    maxPoints: number;
+    disclaimer: string;
+}
+
+export interface SuggestionInput {
+    heightCm: number;
+    weightKg: number;
+    weightRangeKg: ValueRange;
+    bmi: number;
+    /** The scheme the result was classified with; it decides the healthy range. */
+    scheme: BmiScheme;
+    details: PersonalDetails;
+}
+
+export interface SuggestionPlan {
+    version: number;
+    healthyRangeKg: ValueRange;
+    status: WeightStatus;
+    /** Kg to reach the nearest edge of the healthy range: positive to gain, negative to lose, 0 within it. */
+    changeKg: number;
+    title: string;
+    points: string[];
+    disclaimer: string;
+    /** Details the user could add for more specific suggestions. */
+    missingDetails: (keyof PersonalDetails)[];
+}
+
+export function getAgeBand(age: number | undefined): AgeBand | undefined {
+    if (age === undefined) return undefined;
+    if (age < 40) return '18-39';
+    return age < 65 ? '40-64' : '65+';
+}
+
+const includes = <T>(allowed: T[] | undefined, value: T | undefined) => !allowed || (value !== undefined && allowed.includes(value));
+
+interface RuleFacts {
+    status: WeightStatus;
+    bmi: number;
+    nearHealthyRange: boolean;
+    ageBand?: AgeBand;
+    details: PersonalDetails;
+}
+
+function matches({ when }: SuggestionRule, facts: RuleFacts): boolean {
+    return includes(when.status, facts.status)
+        && (when.minBmi === undefined || facts.bmi >= when.minBmi)
+        && (when.maxBmi === undefined || facts.bmi < when.maxBmi)
+        && (when.nearHealthyRange === undefined || when.nearHealthyRange === facts.nearHealthyRange)
+        && includes(when.ageBands, facts.ageBand)
+        && includes(when.sexes, facts.details.sex)
+        && includes(when.activity, facts.details.activity)
+        && includes(when.goals, facts.details.goal);
+}
+
+function fillTemplate(text: string, values: Record<string, string>): string {
+    return text.replace(/\{(\w+)\}/g, (placeholder, key: string) => values[key] ?? placeholder);
+}
+
+/** Works out the healthy range and distance to it, then picks the guidance that fits the user's details. */
+export function buildSuggestions(input: SuggestionInput, rules: SuggestionRuleSet = SUGGESTION_RULES): SuggestionPlan {
+    const { weightKg, weightRangeKg, details } = input;
+    const healthyRangeKg = healthyWeightRange(input.heightCm, input.scheme);
+    const status: WeightStatus = weightKg < healthyRangeKg.lower ? 'below' : weightKg >= healthyRangeKg.upper ? 'above' : 'within';
+    const changeKg = status === 'below' ? healthyRangeKg.lower - weightKg : status === 'above' ? healthyRangeKg.upper - weightKg : 0;
+    const facts: RuleFacts = {
+        status,
+        bmi: input.bmi,
+        nearHealthyRange: weightRangeKg.upper >= healthyRangeKg.lower && weightRangeKg.lower < healthyRangeKg.upper,
+        ageBand: getAgeBand(details.age),
+        details,
+    };
+
+    const [slowest, fastest] = rules.paceKgPerWeek[changeKg > 0 ? 'gain' : 'lose'];
+    const values: Record<string, string> = {
+        changeKg: Math.abs(changeKg).toFixed(1),
+        lowerKg: healthyRangeKg.lower.toFixed(0),
+        upperKg: healthyRangeKg.upper.toFixed(0),
+        pace: `${slowest}–${fastest}`,
+        weeks: `${Math.max(1, Math.round(Math.abs(changeKg) / fastest))}–${Math.max(1, Math.round(Math.abs(changeKg) / slowest))}`,
+    };
+
+    const title = rules.titles.find(rule => matches(rule, facts));
+    const points = rules.points.filter(rule => matches(rule, facts)).slice(0, rules.maxPoints);
+    return {
+        version: rules.version,
+        healthyRangeKg,
+        status,
+        changeKg,
+        title: title ? fillTemplate(title.text, values) : '',
+        points: points.map(rule => fillTemplate(rule.text, values)),
+        disclaimer: rules.disclaimer,
+        missingDetails: (['age', 'sex', 'activity', 'goal'] as const).filter(key => details[key] === undefined),
+    };
+}
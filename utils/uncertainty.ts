@@ -0,0 +1,32 @@
+import type { AccuracyLevel, ValueRange } from '../types';
+
+export type RangeKind = 'height' | 'weight' | 'circumference';
+
+// Relative half-widths used when a provider returns no usable bounds. Weight is always less
+// certain than height because it has to be inferred from a 2D outline; circumferences even more
+// so, since the depth of the body is only guessed from a single view.
+const FALLBACK_MARGINS: Record<AccuracyLevel, Record<RangeKind, number>> = {
+  high: { height: 0.02, weight: 0.06, circumference: 0.08 },
+  medium: { height: 0.04, weight: 0.10, circumference: 0.12 },
+  low: { height: 0.07, weight: 0.15, circumference: 0.18 },
+};
+
+const isValidBound = (value: number | undefined): value is number => typeof value === 'number' && Number.isFinite(value) && value > 0;
+
+/**
+ * Returns a range around `value`, using the provider's bounds when they are sane and
+ * falling back to an accuracy-based margin otherwise. The result always contains `value`.
+ */
+export function resolveRange(value: number, lower: number | undefined, upper: number | undefined, accuracy: AccuracyLevel, kind: RangeKind): ValueRange {
+  if (isValidBound(lower) && isValidBound(upper) && lower <= value && value <= upper) {
+    return { lower, upper };
+  }
+  const margin = (FALLBACK_MARGINS[accuracy] ?? FALLBACK_MARGINS.low)[kind];
+  return { lower: value * (1 - margin), upper: value * (1 + margin) };
+}
+
+export const exactRange = (value: number): ValueRange => ({ lower: value, upper: value });
+
+export function formatRange(range: ValueRange, digits = 1): string {
+  return `${range.lower.toFixed(digits)}–${range.upper.toFixed(digits)}`;
+}
@@ -0,0 +1,51 @@
+import type { UnitSystem, ValueRange } from '../types';
+
+const CM_PER_INCH = 2.54;
+
+// Adult heights outside this range are almost certainly typos. The server enforces the same bounds.
+export const MIN_HEIGHT_CM = 120;
+export const MAX_HEIGHT_CM = 230;
+const LBS_PER_KG = 2.20462;
+
+export function feetInchesToCm(feet: number, inches: number): number {
+  return (feet * 12 + inches) * CM_PER_INCH;
+}
+
+export function cmToFeetInches(heightCm: number): { feet: number; inches: number } {
+  const totalInches = Math.round(heightCm / CM_PER_INCH);
+  return { feet: Math.floor(totalInches / 12), inches: totalInches % 12 };
+}
+
+export function kgToLbs(weightKg: number): number {
+  return weightKg * LBS_PER_KG;
+}
+
+export function formatHeight(heightCm: number, units: UnitSystem): string {
+  if (units === 'metric') return `${heightCm.toFixed(1)} cm`;
+  const { feet, inches } = cmToFeetInches(heightCm);
+  return `${feet}' ${inches}"`;
+}
+
+export function formatWeight(weightKg: number, units: UnitSystem, digits = 1): string {
+  return units === 'metric' ? `${weightKg.toFixed(digits)} kg` : `${kgToLbs(weightKg).toFixed(digits)} lbs`;
+}
+
+export function lbsToKg(weightLbs: number): number {
+  return weightLbs / LBS_PER_KG;
+}
+
+export function cmToInches(heightCm: number): number {
+  return heightCm / CM_PER_INCH;
+}
+
+/** A likely height range, e.g. "176–184 cm" or "5' 9"–6' 0"". */
+export function formatHeightRange(range: ValueRange, units: UnitSystem): string {
+  if (units === 'metric') return `${range.lower.toFixed(0)}–${range.upper.toFixed(0)} cm`;
+  return `${formatHeight(range.lower, units)}–${formatHeight(range.upper, units)}`;
+}
+
+export function formatWeightRange(range: ValueRange, units: UnitSystem, digits = 1): string {
+  return units === 'metric'
+    ? `${range.lower.toFixed(digits)}–${range.upper.toFixed(digits)} kg`
+    : `${kgToLbs(range.lower).toFixed(digits)}–${kgToLbs(range.upper).toFixed(digits)} lbs`;
+}
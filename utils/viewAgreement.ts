@@ -0,0 +1,35 @@
+import type { CaptureView, ViewAgreement, ViewEstimate } from '../types';
+
+const VIEWS: CaptureView[] = ['front', 'side', 'back'];
+
+// Relative spread between the per-view estimates. Height should barely move between views;
+// weight is expected to vary more because a single view hides depth or width.
+const HIGH_AGREEMENT = { height: 0.02, weight: 0.05 };
+const MEDIUM_AGREEMENT = { height: 0.04, weight: 0.10 };
+
+const spread = (values: number[]) => Math.max(...values) - Math.min(...values);
+
+/** Keeps only well-formed entries with a known view label; the model's output is not trusted blindly. */
+export function sanitizeViewEstimates(raw: { view: string; heightCm: number; weightKg: number }[] | undefined): ViewEstimate[] {
+    if (!Array.isArray(raw)) return [];
+    return raw
+        .filter(e => VIEWS.includes(e.view as CaptureView) && e.heightCm > 0 && e.weightKg > 0)
+        .map(e => ({ view: e.view as CaptureView, heightCm: e.heightCm, weightKg: e.weightKg }));
+}
+
+export function computeViewAgreement(estimates: ViewEstimate[], heightCm: number, weightKg: number): ViewAgreement | undefined {
+    if (estimates.length < 2) return undefined;
+
+    const heightSpreadCm = spread(estimates.map(e => e.heightCm));
+    const weightSpreadKg = spread(estimates.map(e => e.weightKg));
+    const heightRatio = heightSpreadCm / heightCm;
+    const weightRatio = weightSpreadKg / weightKg;
+
+    let level: ViewAgreement['level'] = 'low';
+    if (heightRatio <= HIGH_AGREEMENT.height && weightRatio <= HIGH_AGREEMENT.weight) {
+        level = 'high';
+    } else if (heightRatio <= MEDIUM_AGREEMENT.height && weightRatio <= MEDIUM_AGREEMENT.weight) {
+        level = 'medium';
+    }
+    return { level, heightSpreadCm, weightSpreadKg };
+}
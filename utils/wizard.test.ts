@@ -0,0 +1,151 @@
+import { describe, expect, it } from 'vitest';
+import type { ReferenceObject } from '../types';
+import { INITIAL_STATE, TRANSITIONS, parseRoute, toRoute, transition, type CaptureContext, type WizardEvent, type WizardState } from './wizard';
+
+const a4: ReferenceObject = { id: 'a4_paper', heightCm: 29.7, widthCm: 21.0 };
+const tile: ReferenceObject = { id: 'floor_tile', heightCm: 60, widthCm: 30 };
+const paper: CaptureContext = { method: 'paper', reference: a4, multiView: false };
+const pose: CaptureContext = { method: 'pose', multiView: true };
+const quickSnap: CaptureContext = { method: 'environment', knownHeightCm: 180, multiView: false };
+
+const result: WizardState = { step: 'result', context: paper, mode: 'camera' };
+
+// Every entry of TRANSITIONS, as [from, event, expected].
+const cases: [WizardState, WizardEvent, WizardState][] = [
+  [{ step: 'profile' }, { type: 'CHOOSE_PROFILE' }, { step: 'reference' }],
+
+  [{ step: 'reference' }, { type: 'CHOOSE_REFERENCE', reference: tile }, { step: 'instructions', context: { method: 'paper', reference: tile, multiView: false } }],
+  [{ step: 'reference' }, { type: 'CHOOSE_ESTIMATE' }, { step: 'estimation' }],
+  [{ step: 'reference' }, { type: 'CHOOSE_KNOWN_HEIGHT' }, { step: 'height' }],
+  [{ step: 'reference' }, { type: 'OPEN_HISTORY' }, { step: 'history' }],
+  [{ step: 'reference' }, { type: 'OPEN_SETTINGS' }, { step: 'settings' }],
+  [{ step: 'reference' }, { type: 'BACK' }, { step: 'profile' }],
+
+  [{ step: 'estimation' }, { type: 'CHOOSE_METHOD', method: 'pose' }, { step: 'instructions', context: { method: 'pose', multiView: false } }],
+  [{ step: 'estimation' }, { type: 'BACK' }, { step: 'reference' }],
+
+  [{ step: 'height' }, { type: 'SUBMIT_HEIGHT', heightCm: 180 }, { step: 'instructions', context: quickSnap }],
+  [{ step: 'height', knownHeightCm: 170 }, { type: 'BACK' }, { step: 'reference' }],
+
+  [{ step: 'instructions', context: paper }, { type: 'SET_MULTI_VIEW', multiView: true }, { step: 'instructions', context: { ...paper, multiView: true } }],
+  [{ step: 'instructions', context: pose }, { type: 'CONTINUE' }, { step: 'source', context: pose }],
+  [{ step: 'instructions', context: quickSnap }, { type: 'BACK' }, { step: 'height', knownHeightCm: 180 }],
+  [{ step: 'instructions', context: paper }, { type: 'BACK' }, { step: 'reference' }],
+  [{ step: 'instructions', context: pose }, { type: 'BACK' }, { step: 'estimation' }],
+
+  [{ step: 'source', context: pose }, { type: 'CHOOSE_SOURCE', mode: 'upload' }, { step: 'capture', context: pose, mode: 'upload' }],
+  [{ step: 'source', context: pose }, { type: 'BACK' }, { step: 'instructions', context: pose }],
+
+  [{ step: 'capture', context: paper, mode: 'camera' }, { type: 'ANALYZE' }, { step: 'loading', context: paper, mode: 'camera' }],
+  [{ step: 'capture', context: paper, mode: 'camera' }, { type: 'BACK' }, { step: 'source', context: paper }],
+
+  [{ step: 'loading', context: paper, mode: 'camera' }, { type: 'SUCCEED' }, result],
+  [{ step: 'loading', context: paper, mode: 'camera' }, { type: 'FAIL' }, { step: 'error', context: paper, mode: 'camera' }],
+  [{ step: 'loading', context: paper, mode: 'camera' }, { type: 'PICK_SUBJECT' }, { step: 'subject', context: paper, mode: 'camera' }],
+  [{ step: 'loading', context: paper, mode: 'camera' }, { type: 'CANCEL' }, { step: 'capture', context: paper, mode: 'camera' }],
+
+  [{ step: 'subject', context: paper, mode: 'upload' }, { type: 'ANALYZE' }, { step: 'loading', context: paper, mode: 'upload' }],
+  [{ step: 'subject', context: paper, mode: 'upload' }, { type: 'BACK' }, { step: 'capture', context: paper, mode: 'upload' }],
+
+  [{ step: 'error', context: pose, mode: 'upload' }, { type: 'ANALYZE' }, { step: 'loading', context: pose, mode: 'upload' }],
+  [{ step: 'error', context: pose, mode: 'upload' }, { type: 'RETAKE' }, { step: 'capture', context: pose, mode: 'upload' }],
+  [{ step: 'error', context: pose, mode: 'upload' }, { type: 'SWITCH_TO_REFERENCE' }, { step: 'reference' }],
+  [{ step: 'error', context: pose, mode: 'upload' }, { type: 'BACK' }, { step: 'capture', context: pose, mode: 'upload' }],
+
+  [result, { type: 'RETAKE' }, { step: 'capture', context: paper, mode: 'camera' }],
+  [result, { type: 'OPEN_HISTORY' }, { step: 'history', returnTo: result as Extract<WizardState, { step: 'result' }> }],
+
+  [{ step: 'history', returnTo: result as Extract<WizardState, { step: 'result' }> }, { type: 'BACK' }, result],
+  [{ step: 'history' }, { type: 'BACK' }, { step: 'reference' }],
+
+  [{ step: 'settings' }, { type: 'BACK' }, { step: 'reference' }],
+];
+
+describe('transition', () => {
+  it.each(cases)('%o + %o', (from, event, expected) => {
+    expect(transition(from, event)).toEqual(expected);
+  });
+
+  it('covers every entry of the transition table', () => {
+    const covered = new Set(cases.map(([from, event]) => `${from.step}:${event.type}`));
+    const listed = Object.entries(TRANSITIONS).flatMap(([step, handlers]) => Object.keys(handlers).map(type => `${step}:${type}`));
+    expect(listed.filter(key => !covered.has(key))).toEqual([]);
+  });
+
+  it('returns the same state object for events a step does not list', () => {
+    const states: WizardState[] = [{ step: 'profile' }, { step: 'reference' }, { step: 'instructions', context: pose }, result, { step: 'settings' }];
+    const events: WizardEvent[] = [{ type: 'ANALYZE' }, { type: 'SUCCEED' }, { type: 'CHOOSE_PROFILE' }, { type: 'CONTINUE' }, { type: 'BACK' }];
+    for (const state of states) {
+      for (const event of events) {
+        if (TRANSITIONS[state.step][event.type]) continue;
+        expect(transition(state, event)).toBe(state);
+      }
+    }
+  });
+
+  it('returns the initial state on RESET from any step', () => {
+    expect(transition(result, { type: 'RESET' })).toBe(INITIAL_STATE);
+    expect(transition({ step: 'settings' }, { type: 'RESET' })).toBe(INITIAL_STATE);
+  });
+
+  it('jumps to the given state on NAVIGATE, whatever the step accepts', () => {
+    const target: WizardState = { step: 'source', context: pose };
+    expect(transition({ step: 'profile' }, { type: 'NAVIGATE', state: target })).toBe(target);
+  });
+});
+
+describe('routes', () => {
+  const roundTrips: WizardState[] = [
+    { step: 'profile' },
+    { step: 'reference' },
+    { step: 'estimation' },
+    { step: 'history' },
+    { step: 'settings' },
+    { step: 'height' },
+    { step: 'height', knownHeightCm: 172.5 },
+    { step: 'instructions', context: paper },
+    { step: 'instructions', context: { method: 'paper', reference: tile, multiView: true } },
+    { step: 'instructions', context: { method: 'paper', reference: { id: 'companion', heightCm: 175 }, multiView: false } },
+    { step: 'source', context: pose },
+    { step: 'source', context: quickSnap },
+    { step: 'capture', context: paper, mode: 'camera' },
+    { step: 'capture', context: quickSnap, mode: 'upload' },
+    result,
+  ];
+
+  it.each(roundTrips)('round-trips %o', (state) => {
+    const route = toRoute(state);
+    expect(parseRoute(route)).toEqual(state);
+    expect(parseRoute(`#${route}`)).toEqual(state);
+  });
+
+  it('maps in-memory steps to the capture route', () => {
+    expect(toRoute({ step: 'loading', context: pose, mode: 'camera' })).toBe('/capture/pose/camera?views=multi');
+    expect(toRoute({ step: 'subject', context: pose, mode: 'camera' })).toBe('/capture/pose/camera?views=multi');
+    expect(toRoute({ step: 'error', context: pose, mode: 'camera' })).toBe('/capture/pose/camera?views=multi');
+  });
+
+  it('reads paper links without a ref as A4 paper', () => {
+    expect(parseRoute('/instructions/paper')).toEqual({ step: 'instructions', context: { method: 'paper', reference: a4, multiView: false } });
+  });
+
+  it.each([
+    ['extra segments', '/capture/pose/camera/extra'],
+    ['extra segments on a simple step', '/settings/pose'],
+    ['extra segments on the height step', '/height/pose'],
+    ['an unknown step', '/unknown'],
+    ['an unknown method', '/instructions/laser'],
+    ['a missing method', '/instructions'],
+    ['an unknown mode', '/capture/pose/video'],
+    ['a mode on the instructions step', '/instructions/pose/camera'],
+    ['a height on the pose method', '/instructions/pose?height=180'],
+    ['a height on the paper method', '/capture/paper/camera?height=180'],
+    ['an unknown reference object', '/instructions/paper?ref=banana'],
+    ['a tile without a size', '/instructions/paper?ref=floor_tile'],
+    ['an implausible companion height', '/instructions/paper?ref=companion:20'],
+    ['a ref on the pose method', '/instructions/pose?ref=a4_paper'],
+    ['a ref on the environment method', '/capture/environment/upload?ref=a4_paper'],
+  ])('returns null for %s', (_, route) => {
+    expect(parseRoute(route)).toBeNull();
+  });
+});
@@ -0,0 +1,232 @@
+import type { CaptureMethod, ReferenceObject } from '../types';
+import { DEFAULT_REFERENCE_OBJECT, formatReferenceParam, parseReferenceParam } from './referenceObjects';
+
+export type EstimationMethod = 'pose' | 'environment';
+export type CaptureMode = 'upload' | 'camera';
+
+/** Everything the capture and analysis steps need to know about the user's earlier choices. */
+export interface CaptureContext {
+  method: CaptureMethod;
+  /** The object the user measures against; set exactly when the method is 'paper'. */
+  reference?: ReferenceObject;
+  /** Set on the "I know my height" path, where the method is always 'environment'. */
+  knownHeightCm?: number;
+  multiView: boolean;
+}
+
+/** A step that works on the photos of one capture session. */
+interface CaptureSessionState<S extends string> {
+  step: S;
+  context: CaptureContext;
+  mode: CaptureMode;
+}
+
+export type WizardState =
+  | { step: 'profile' }
+  | { step: 'reference' }
+  | { step: 'estimation' }
+  | { step: 'height'; knownHeightCm?: number }
+  | { step: 'instructions'; context: CaptureContext }
+  | { step: 'source'; context: CaptureContext }
+  | CaptureSessionState<'capture'>
+  | CaptureSessionState<'loading'>
+  | CaptureSessionState<'subject'>
+  | CaptureSessionState<'error'>
+  | CaptureSessionState<'result'>
+  | { step: 'history'; returnTo?: CaptureSessionState<'result'> }
+  | { step: 'settings' };
+
+export type Step = WizardState['step'];
+
+export type WizardEvent =
+  /** The profile itself is app state; the wizard only moves on. */
+  | { type: 'CHOOSE_PROFILE' }
+  | { type: 'CHOOSE_REFERENCE'; reference: ReferenceObject }
+  | { type: 'CHOOSE_ESTIMATE' }
+  | { type: 'CHOOSE_KNOWN_HEIGHT' }
+  | { type: 'CHOOSE_METHOD'; method: EstimationMethod }
+  | { type: 'SUBMIT_HEIGHT'; heightCm: number }
+  | { type: 'SET_MULTI_VIEW'; multiView: boolean }
+  | { type: 'CONTINUE' }
+  | { type: 'CHOOSE_SOURCE'; mode: CaptureMode }
+  | { type: 'ANALYZE' }
+  | { type: 'CANCEL' }
+  | { type: 'PICK_SUBJECT' }
+  | { type: 'SUCCEED' }
+  | { type: 'FAIL' }
+  | { type: 'RETAKE' }
+  | { type: 'SWITCH_TO_REFERENCE' }
+  | { type: 'OPEN_HISTORY' }
+  | { type: 'OPEN_SETTINGS' }
+  | { type: 'BACK' }
+  | { type: 'RESET' }
+  /** Jump to a state parsed from the URL (back/forward, deep link). */
+  | { type: 'NAVIGATE'; state: WizardState };
+
+type EventType = WizardEvent['type'];
+type StateOf<S extends Step> = Extract<WizardState, { step: S }>;
+type EventOf<T extends EventType> = Extract<WizardEvent, { type: T }>;
+
+export type TransitionTable = {
+  [S in Step]: { [T in EventType]?: (state: StateOf<S>, event: EventOf<T>) => WizardState };
+};
+
+// Every measurement starts by saying who is being measured.
+export const INITIAL_STATE: WizardState = { step: 'profile' };
+
+/** Every allowed move. Events a step doesn't list are ignored, so impossible states can't be reached. */
+export const TRANSITIONS: TransitionTable = {
+  profile: {
+    CHOOSE_PROFILE: () => ({ step: 'reference' }),
+  },
+  reference: {
+    CHOOSE_REFERENCE: (_, { reference }) => ({ step: 'instructions', context: { method: 'paper', reference, multiView: false } }),
+    CHOOSE_ESTIMATE: () => ({ step: 'estimation' }),
+    CHOOSE_KNOWN_HEIGHT: () => ({ step: 'height' }),
+    OPEN_HISTORY: () => ({ step: 'history' }),
+    OPEN_SETTINGS: () => ({ step: 'settings' }),
+    BACK: () => ({ step: 'profile' }),
+  },
+  estimation: {
+    CHOOSE_METHOD: (_, { method }) => ({ step: 'instructions', context: { method, multiView: false } }),
+    BACK: () => ({ step: 'reference' }),
+  },
+  height: {
+    // With the height fixed, no scale reference is needed; the quick snap tips cover what the photo must show.
+    SUBMIT_HEIGHT: (_, { heightCm }) => ({ step: 'instructions', context: { method: 'environment', knownHeightCm: heightCm, multiView: false } }),
+    BACK: () => ({ step: 'reference' }),
+  },
+  instructions: {
+    SET_MULTI_VIEW: (state, { multiView }) => ({ ...state, context: { ...state.context, multiView } }),
+    CONTINUE: ({ context }) => ({ step: 'source', context }),
+    BACK: ({ context }) => {
+      if (context.knownHeightCm !== undefined) return { step: 'height', knownHeightCm: context.knownHeightCm };
+      return context.method === 'paper' ? { step: 'reference' } : { step: 'estimation' };
+    },
+  },
+  source: {
+    CHOOSE_SOURCE: ({ context }, { mode }) => ({ step: 'capture', context, mode }),
+    BACK: ({ context }) => ({ step: 'instructions', context }),
+  },
+  capture: {
+    ANALYZE: ({ context, mode }) => ({ step: 'loading', context, mode }),
+    BACK: ({ context }) => ({ step: 'source', context }),
+  },
+  loading: {
+    SUCCEED: ({ context, mode }) => ({ step: 'result', context, mode }),
+    FAIL: ({ context, mode }) => ({ step: 'error', context, mode }),
+    PICK_SUBJECT: ({ context, mode }) => ({ step: 'subject', context, mode }),
+    CANCEL: ({ context, mode }) => ({ step: 'capture', context, mode }),
+  },
+  subject: {
+    ANALYZE: ({ context, mode }) => ({ step: 'loading', context, mode }),
+    BACK: ({ context, mode }) => ({ step: 'capture', context, mode }),
+  },
+  error: {
+    ANALYZE: ({ context, mode }) => ({ step: 'loading', context, mode }),
+    RETAKE: ({ context, mode }) => ({ step: 'capture', context, mode }),
+    // Back to the start, where the reference objects are picked.
+    SWITCH_TO_REFERENCE: () => ({ step: 'reference' }),
+    BACK: ({ context, mode }) => ({ step: 'capture', context, mode }),
+  },
+  result: {
+    RETAKE: ({ context, mode }) => ({ step: 'capture', context, mode }),
+    OPEN_HISTORY: (state) => ({ step: 'history', returnTo: state }),
+  },
+  history: {
+    BACK: ({ returnTo }) => returnTo ?? { step: 'reference' },
+  },
+  settings: {
+    BACK: () => ({ step: 'reference' }),
+  },
+};
+
+/** The wizard's reducer. Returns the same state object for events the current step doesn't accept. */
+export function transition(state: WizardState, event: WizardEvent): WizardState {
+  if (event.type === 'RESET') return INITIAL_STATE;
+  if (event.type === 'NAVIGATE') return event.state;
+  const handler = TRANSITIONS[state.step][event.type] as ((state: WizardState, event: WizardEvent) => WizardState) | undefined;
+  return handler ? handler(state, event) : state;
+}
+
+// --- Routes ---------------------------------------------------------------
+
+const METHODS: CaptureMethod[] = ['paper', 'pose', 'environment'];
+const MODES: CaptureMode[] = ['upload', 'camera'];
+
+const contextQuery = (context: CaptureContext): string => {
+  const params = new URLSearchParams();
+  if (context.reference) params.set('ref', formatReferenceParam(context.reference));
+  if (context.knownHeightCm !== undefined) params.set('height', String(context.knownHeightCm));
+  if (context.multiView) params.set('views', 'multi');
+  const query = params.toString();
+  return query ? `?${query}` : '';
+};
+
+/**
+ * The path for a state, without the leading '#'. Loading, subject selection and errors share the
+ * capture route: they depend on images held in memory, so reloading them lands back on capture.
+ */
+export function toRoute(state: WizardState): string {
+  switch (state.step) {
+    case 'profile':
+      return '/';
+    case 'reference':
+    case 'estimation':
+    case 'history':
+    case 'settings':
+      return `/${state.step}`;
+    case 'height':
+      return state.knownHeightCm !== undefined ? `/height?height=${state.knownHeightCm}` : '/height';
+    case 'instructions':
+    case 'source':
+      return `/${state.step}/${state.context.method}${contextQuery(state.context)}`;
+    case 'capture':
+    case 'loading':
+    case 'subject':
+    case 'error':
+      return `/capture/${state.context.method}/${state.mode}${contextQuery(state.context)}`;
+    case 'result':
+      return `/result/${state.context.method}/${state.mode}${contextQuery(state.context)}`;
+  }
+}
+
+const parseHeight = (value: string | null): number | undefined => {
+  if (value === null) return undefined;
+  const height = parseFloat(value);
+  return Number.isFinite(height) && height > 0 ? height : undefined;
+};
+
+/** Parses a route such as `/instructions/pose?views=multi`. Returns null for anything unknown or malformed. */
+export function parseRoute(route: string): WizardState | null {
+  const [path, query = ''] = route.replace(/^#/, '').split('?');
+  const params = new URLSearchParams(query);
+  const [name, method, mode, ...rest] = path.split('/').filter(Boolean);
+  if (rest.length > 0) return null;
+
+  if (!name) return { step: 'profile' };
+  if (name === 'reference' || name === 'estimation' || name === 'settings' || name === 'history') {
+    return method === undefined ? { step: name } : null;
+  }
+  if (name === 'height') {
+    return method === undefined ? { step: 'height', knownHeightCm: parseHeight(params.get('height')) } : null;
+  }
+
+  if (!METHODS.includes(method as CaptureMethod)) return null;
+  const knownHeightCm = parseHeight(params.get('height'));
+  // A known height only exists on the quick snap path.
+  if (knownHeightCm !== undefined && method !== 'environment') return null;
+  const referenceParam = params.get('ref');
+  // Links from before the catalog existed have no `ref`; they meant a sheet of paper.
+  const reference = referenceParam !== null ? parseReferenceParam(referenceParam) : method === 'paper' ? DEFAULT_REFERENCE_OBJECT : undefined;
+  if (reference === null || (reference !== undefined) !== (method === 'paper')) return null;
+  const context: CaptureContext = { method: method as CaptureMethod, reference, knownHeightCm, multiView: params.get('views') === 'multi' };
+
+  if (name === 'instructions' || name === 'source') {
+    return mode === undefined ? { step: name, context } : null;
+  }
+  if ((name === 'capture' || name === 'result') && MODES.includes(mode as CaptureMode)) {
+    return { step: name, context, mode: mode as CaptureMode };
+  }
+  return null;
+}
@@ -8,11 +8,15 @@ export default defineConfig(({ mode }) => {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy: {
+          '/api': `http://localhost:${env.PORT || 8787}`,
+        },
       },
       plugins: [react()],
+      // Never define GEMINI_API_KEY here: anything in `define` ends up in the client bundle.
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.ESTIMATION_PROVIDER': JSON.stringify(env.ESTIMATION_PROVIDER ?? ''),
+        'process.env.ANALYSIS_API_URL': JSON.stringify(env.ANALYSIS_API_URL ?? '')
       },
       resolve: {
         alias: {